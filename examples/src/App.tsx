@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from "react";
 import CrosswordSolver from "../../src/components/CrosswordSolver";
 import { IPuzPuzzle } from "../../src/types/ipuz";
+import { validateIpuz } from "../../src/validation";
 
 const App: React.FC = () => {
   const [ipuzData, setIpuzData] = useState<IPuzPuzzle | null>(null);
@@ -18,11 +19,15 @@ const App: React.FC = () => {
       .then(data => {
         console.log('Loaded puzzle data:', data);
         // Validate the data matches our IPuzPuzzle type
-        if (isValidIpuzPuzzle(data)) {
-          setIpuzData(data);
+        const result = validateIpuz(data);
+        result.warnings.forEach(warning =>
+          console.warn(`${warning.path}: ${warning.message}`)
+        );
+        if (result.valid) {
+          setIpuzData(data as IPuzPuzzle);
         } else {
-          console.error('Invalid puzzle data:', data);
-          setError('Invalid puzzle format');
+          console.error('Invalid puzzle data:', result.errors);
+          setError(`Invalid puzzle format: ${result.errors[0].path}: ${result.errors[0].message}`);
         }
       })
       .catch(err => {
@@ -31,55 +36,6 @@ const App: React.FC = () => {
       });
   }, []);
 
-  const isValidIpuzPuzzle = (data: any): data is IPuzPuzzle => {
-    try {
-      // Basic structure validation
-      if (!data || typeof data !== 'object') {
-        console.error('Invalid data: not an object');
-        return false;
-      }
-
-      // Check required fields
-      const requiredFields = ['version', 'kind', 'dimensions', 'puzzle', 'clues'];
-      for (const field of requiredFields) {
-        if (!(field in data)) {
-          console.error(`Missing required field: ${field}`);
-          return false;
-        }
-      }
-
-      // Validate dimensions
-      if (!data.dimensions || typeof data.dimensions.width !== 'number' || typeof data.dimensions.height !== 'number') {
-        console.error('Invalid dimensions');
-        return false;
-      }
-
-      // Validate puzzle grid
-      if (!Array.isArray(data.puzzle) || data.puzzle.length !== data.dimensions.height) {
-        console.error('Invalid puzzle grid height');
-        return false;
-      }
-
-      for (const row of data.puzzle) {
-        if (!Array.isArray(row) || row.length !== data.dimensions.width) {
-          console.error('Invalid puzzle grid width');
-          return false;
-        }
-      }
-
-      // Validate clues
-      if (!data.clues || !Array.isArray(data.clues.Across) || !Array.isArray(data.clues.Down)) {
-        console.error('Invalid clues structure');
-        return false;
-      }
-
-      return true;
-    } catch (e) {
-      console.error('Validation error:', e);
-      return false;
-    }
-  };
-
   return (
     <div style={{
       maxWidth: "100%",
@@ -0,0 +1,56 @@
+import { describe, it, expect } from "@jest/globals";
+import { processLetterChange } from "../utils";
+
+describe("autocheck", () => {
+  const input = {
+    grid: [[false, false, false]],
+    letters: [["", "", ""]],
+    validatedCells: null,
+    activeClueNumber: 1,
+    clueOrientation: "across" as const,
+    rows: 1,
+    columns: 3,
+    solution: [["C", "A", "T"]],
+  };
+
+  it("should mark typed letters right or wrong when enabled", () => {
+    const right = processLetterChange({
+      ...input,
+      autocheck: true,
+      row: 0,
+      col: 0,
+      letter: "c",
+    });
+    expect(right?.newValidatedCells[0][0]).toBe(true);
+
+    const wrong = processLetterChange({
+      ...input,
+      autocheck: true,
+      row: 0,
+      col: 1,
+      letter: "X",
+    });
+    expect(wrong?.newValidatedCells[0][1]).toBe(false);
+
+    const deleted = processLetterChange({
+      ...input,
+      letters: [["C", "", ""]],
+      validatedCells: [[true, undefined, undefined]],
+      autocheck: true,
+      row: 0,
+      col: 0,
+      letter: "",
+    });
+    expect(deleted?.newValidatedCells[0][0]).toBeUndefined();
+  });
+
+  it("should leave letters unchecked when disabled", () => {
+    const result = processLetterChange({
+      ...input,
+      row: 0,
+      col: 1,
+      letter: "X",
+    });
+    expect(result?.newValidatedCells[0][1]).toBeUndefined();
+  });
+});
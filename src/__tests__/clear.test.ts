@@ -0,0 +1,76 @@
+import { describe, it, expect } from "@jest/globals";
+import { loadIpuzPuzzle } from "../loader";
+import { clearCells, getCellsInScope, getIncorrectCells } from "../utils";
+import { IPuzPuzzle } from "../types/ipuz";
+
+describe("clearing answers", () => {
+  // "A" and "O" are given
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 3, height: 2 },
+    puzzle: [
+      [1, { cell: 0, value: "A" }, 2],
+      [3, { cell: 0, value: "O" }, 0],
+    ],
+    solution: [
+      ["C", "A", "T"],
+      ["C", "O", "W"],
+    ],
+    clues: {
+      Across: [
+        [1, "Feline"],
+        [3, "Bovine"],
+      ],
+      Down: [[1, "CC"]],
+    },
+  });
+
+  it("should clear unlocked cells and their check marks", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const letters = [
+      ["C", "A", "X"],
+      ["Q", "O", ""],
+    ];
+    const solution = [
+      ["C", "A", "T"],
+      ["C", "O", "W"],
+    ];
+    const revealed = [
+      [false, false, false],
+      [true, false, false],
+    ];
+
+    // Revealed cells count as correct even if their letter was edited
+    expect(
+      getIncorrectCells({ ...state, letters, revealed }, solution),
+    ).toEqual([[0, 2]]);
+    expect(getIncorrectCells({ ...state, letters }, solution)).toEqual([
+      [0, 2],
+      [1, 0],
+    ]);
+
+    const result = clearCells(
+      { ...state, letters },
+      [
+        [true, undefined, false],
+        [undefined, undefined, false],
+      ],
+      getCellsInScope(state, "puzzle"),
+    );
+    expect(result.letters).toEqual([
+      ["", "A", ""],
+      ["", "O", ""],
+    ]);
+    expect(result.validatedCells).toEqual([
+      [undefined, undefined, undefined],
+      [undefined, undefined, undefined],
+    ]);
+    expect(result.clearedCells).toEqual([
+      [0, 0],
+      [0, 2],
+      [1, 0],
+      [1, 2],
+    ]);
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  CollaborationMessage,
+  CollaborationOperation,
+  compareOperations,
+  createLetterOperations,
+  createMemoryCollaborationHub,
+  createOperationStamps,
+  createWebSocketTransport,
+  getParticipantColor,
+  getStampedOperations,
+  mergeOperations,
+} from "../collaboration";
+
+describe("collaborative solving", () => {
+  const op = (
+    cell: [number, number],
+    value: string,
+    author: string,
+    clock: number,
+  ): CollaborationOperation => ({ cell, value, author, clock });
+
+  it("should turn letter changes into operations with a ticking clock", () => {
+    const operations = createLetterOperations(
+      [["C", "", ""]],
+      [["", "A", "T"]],
+      "alice",
+      4,
+    );
+    expect(operations).toEqual([
+      op([0, 0], "", "alice", 5),
+      op([0, 1], "A", "alice", 6),
+      op([0, 2], "T", "alice", 7),
+    ]);
+  });
+
+  it("should order operations by clock, then author", () => {
+    expect(
+      compareOperations(op([0, 0], "A", "bob", 1), op([0, 0], "B", "alice", 2)),
+    ).toBeLessThan(0);
+    expect(
+      compareOperations(op([0, 0], "A", "bob", 2), op([0, 0], "B", "alice", 2)),
+    ).toBeGreaterThan(0);
+    expect(
+      compareOperations(op([0, 0], "A", "bob", 2), op([0, 1], "B", "bob", 2)),
+    ).toBe(0);
+  });
+
+  it("should merge to the same grid whatever order operations arrive in", () => {
+    const operations = [
+      op([0, 0], "C", "alice", 1),
+      op([0, 0], "K", "bob", 1),
+      op([0, 1], "A", "bob", 2),
+      op([0, 1], "", "alice", 3),
+      op([0, 2], "T", "alice", 2),
+    ];
+    const letters = [["", "", ""]];
+    const stamps = createOperationStamps(1, 3);
+
+    const forward = mergeOperations(letters, stamps, operations);
+    const backward = mergeOperations(
+      letters,
+      stamps,
+      [...operations].reverse(),
+    );
+    expect(forward.letters).toEqual([["K", "", "T"]]);
+    expect(backward.letters).toEqual(forward.letters);
+    expect(backward.stamps).toEqual(forward.stamps);
+
+    // Replaying operations that already lost changes nothing
+    const replayed = mergeOperations(
+      forward.letters,
+      forward.stamps,
+      operations,
+    );
+    expect(replayed.applied).toEqual([]);
+  });
+
+  it("should ignore operations on locked cells and outside the grid", () => {
+    const result = mergeOperations(
+      [["C", "A"]],
+      createOperationStamps(1, 2),
+      [op([0, 1], "X", "bob", 1), op([3, 3], "Y", "bob", 2)],
+      [[false, true]],
+    );
+    expect(result.letters).toEqual([["C", "A"]]);
+    expect(result.applied).toEqual([]);
+  });
+
+  it("should list the winning operations for a newcomer", () => {
+    const { letters, stamps } = mergeOperations(
+      [["", ""]],
+      createOperationStamps(1, 2),
+      [op([0, 1], "A", "bob", 3)],
+    );
+    expect(getStampedOperations(letters, stamps)).toEqual([
+      op([0, 1], "A", "bob", 3),
+    ]);
+  });
+
+  it("should deliver memory transport messages to the other participants only", () => {
+    const hub = createMemoryCollaborationHub();
+    const alice = hub.connect();
+    const bob = hub.connect();
+    const carol = hub.connect();
+    const received: Record<string, CollaborationMessage[]> = {
+      alice: [],
+      bob: [],
+      carol: [],
+    };
+    alice.subscribe((message) => received.alice.push(message));
+    bob.subscribe((message) => received.bob.push(message));
+    const unsubscribeCarol = carol.subscribe((message) =>
+      received.carol.push(message),
+    );
+
+    alice.send({ type: "join", author: "alice" });
+    expect(received.alice).toEqual([]);
+    expect(received.bob).toEqual([{ type: "join", author: "alice" }]);
+    expect(received.carol).toEqual([{ type: "join", author: "alice" }]);
+
+    unsubscribeCarol();
+    bob.close?.();
+    alice.send({ type: "leave", author: "alice" });
+    expect(received.bob).toHaveLength(1);
+    expect(received.carol).toHaveLength(1);
+  });
+
+  it("should give each participant a stable color", () => {
+    expect(getParticipantColor("alice")).toBe(getParticipantColor("alice"));
+    expect(getParticipantColor("alice")).toMatch(/^#[0-9a-f]{6}$/);
+  });
+
+  it("should drop malformed frames from the WebSocket", () => {
+    type MessageHandler = (event: { data: unknown }) => void;
+    class FakeWebSocket {
+      static CONNECTING = 0;
+      static OPEN = 1;
+      static instance: FakeWebSocket;
+      readyState = FakeWebSocket.CONNECTING;
+      binaryType = "blob";
+      handlers: MessageHandler[] = [];
+      constructor() {
+        FakeWebSocket.instance = this;
+      }
+      addEventListener(type: string, handler: MessageHandler) {
+        if (type === "message") this.handlers.push(handler);
+      }
+      send() {}
+      close() {}
+      receive(data: unknown) {
+        this.handlers.forEach((handler) => handler({ data }));
+      }
+    }
+    const globals = globalThis as { WebSocket?: unknown };
+    const originalWebSocket = globals.WebSocket;
+    globals.WebSocket = FakeWebSocket;
+
+    try {
+      const transport = createWebSocketTransport("ws://localhost");
+      const received: CollaborationMessage[] = [];
+      transport.subscribe((message) => received.push(message));
+      const socket = FakeWebSocket.instance;
+
+      [
+        "not json",
+        "null",
+        JSON.stringify({ type: "operations" }),
+        JSON.stringify({ type: "operations", operations: [{ cell: [0] }] }),
+        JSON.stringify({ type: "presence" }),
+        JSON.stringify({ type: "presence", presence: { color: "#fff" } }),
+        JSON.stringify({ type: "join" }),
+        JSON.stringify({ type: "unknown", author: "bob" }),
+      ].forEach((frame) => socket.receive(frame));
+      expect(received).toEqual([]);
+
+      const operations = {
+        type: "operations",
+        operations: [op([0, 1], "A", "bob", 3)],
+      };
+      socket.receive(JSON.stringify(operations));
+
+      // Binary frames are decoded rather than dropped
+      const text = JSON.stringify({ type: "leave", author: "bob" });
+      const buffer = new ArrayBuffer(text.length);
+      const bytes = new Uint8Array(buffer);
+      Array.from(text).forEach((ch, i) => (bytes[i] = ch.charCodeAt(0)));
+      socket.receive(buffer);
+
+      expect(socket.binaryType).toBe("arraybuffer");
+      expect(received).toEqual([operations, { type: "leave", author: "bob" }]);
+    } finally {
+      globals.WebSocket = originalWebSocket;
+    }
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, it, expect } from "@jest/globals";
+import { loadIpuzPuzzle } from "../loader";
+import { applyControlledValues } from "../utils";
+import { IPuzPuzzle } from "../types/ipuz";
+
+describe("controlled mode", () => {
+  // 2x2 grid: 1-Across "AB", 3-Across "CD", 1-Down "AC", 2-Down "BD"
+  // with "B" given
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 2, height: 2 },
+    puzzle: [
+      [1, { cell: 2, value: "B" }],
+      [3, 0],
+    ],
+    solution: [
+      ["A", "B"],
+      ["C", "D"],
+    ],
+    clues: {
+      Across: [
+        [1, "First"],
+        [3, "Second"],
+      ],
+      Down: [
+        [1, "Third"],
+        [2, "Fourth"],
+      ],
+    },
+  });
+
+  it("should replace letters but keep givens", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const controlled = applyControlledValues(state, {
+      letters: [["X", "Y"]],
+    });
+    expect(controlled.letters).toEqual([
+      ["X", "B"],
+      ["", ""],
+    ]);
+    expect(applyControlledValues(state, {})).toEqual(state);
+  });
+
+  it("should keep revealed answers", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const revealed = {
+      ...state,
+      letters: [
+        ["A", "B"],
+        ["", ""],
+      ],
+      revealed: [
+        [true, false],
+        [false, false],
+      ],
+    };
+    expect(
+      applyControlledValues(revealed, { letters: [["X", "Y"], ["Z"]] }).letters,
+    ).toEqual([
+      ["A", "B"],
+      ["Z", ""],
+    ]);
+  });
+
+  it("should bring the active clue along with an outside cursor move", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const moved = applyControlledValues(
+      { ...state, activeCell: [0, 0], activeClueNumber: 1 },
+      { activeCell: [1, 1] },
+    );
+    expect(moved.activeCell).toEqual([1, 1]);
+    expect(moved.activeClueNumber).toBe(3);
+    expect(moved.clueOrientation).toBe("across");
+
+    // A cursor the solver already knows about keeps its clue
+    const unchanged = applyControlledValues(
+      {
+        ...state,
+        activeCell: [1, 1],
+        activeClueNumber: 2,
+        clueOrientation: "down",
+      },
+      { activeCell: [1, 1] },
+    );
+    expect(unchanged.activeClueNumber).toBe(2);
+  });
+});
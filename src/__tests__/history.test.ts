@@ -0,0 +1,73 @@
+import { describe, it, expect } from "@jest/globals";
+import { loadIpuzPuzzle } from "../loader";
+import {
+  applyHistorySnapshot,
+  hasGridContentChanged,
+  takeHistorySnapshot,
+} from "../utils";
+import { IPuzPuzzle } from "../types/ipuz";
+
+describe("undo history", () => {
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 3, height: 1 },
+    puzzle: [[1, 0, 0]],
+    solution: [["C", "A", "T"]],
+    clues: { Across: [[1, "Feline"]], Down: [] },
+  });
+
+  it("should only treat grid content changes as edits", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const before = takeHistorySnapshot(state, null);
+
+    // Moving the cursor is not an edit
+    expect(
+      hasGridContentChanged(
+        before,
+        takeHistorySnapshot({ ...state, activeCell: [0, 2] }, null),
+      ),
+    ).toBe(false);
+    // Neither is replacing an empty check-mark matrix with an unchecked one
+    expect(
+      hasGridContentChanged(
+        before,
+        takeHistorySnapshot(state, [[undefined, undefined, undefined]]),
+      ),
+    ).toBe(false);
+
+    expect(
+      hasGridContentChanged(
+        before,
+        takeHistorySnapshot({ ...state, letters: [["C", "", ""]] }, null),
+      ),
+    ).toBe(true);
+    expect(
+      hasGridContentChanged(
+        before,
+        takeHistorySnapshot(state, [[false, undefined, undefined]]),
+      ),
+    ).toBe(true);
+  });
+
+  it("should restore letters and the cursor from a snapshot", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const before = takeHistorySnapshot(
+      { ...state, activeCell: [0, 1], letters: [["C", "", ""]] },
+      null,
+    );
+    const restored = applyHistorySnapshot(
+      {
+        ...state,
+        activeCell: [0, 2],
+        letters: [["C", "A", "T"]],
+        rebusEntry: "AB",
+      },
+      before,
+    );
+
+    expect(restored.letters).toEqual([["C", "", ""]]);
+    expect(restored.activeCell).toEqual([0, 1]);
+    expect(restored.rebusEntry).toBeNull();
+  });
+});
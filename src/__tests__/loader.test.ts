@@ -0,0 +1,422 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  getIpuzCellKind,
+  getIpuzCellStyle,
+  getIpuzGiven,
+  getIpuzSolutionValue,
+  getIpuzWalls,
+  loadIpuzPuzzle,
+  resolveClueNumbering,
+} from "../loader";
+import {
+  analyzeCurrentWord,
+  areAllAnswersCorrect,
+  calculateClueNumbers,
+  findClueNumberForCell,
+  findNextCellInWord,
+  findNextClueNumber,
+  findNextWhiteCell,
+  findWordStart,
+  processLetterChange,
+} from "../utils";
+import { IPuzPuzzle } from "../types/ipuz";
+
+describe("loadIpuzPuzzle", () => {
+  // Irregular 3x4 grid with custom block/empty characters:
+  //   void  1    2    void
+  //   3     .    @    4
+  //   void  5    6    .
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 4, height: 3 },
+    block: "@",
+    empty: "_",
+    puzzle: [
+      [null, { cell: 1 }, 2, null],
+      [3, "_", "@", 4],
+      [null, 5, 6, "_"],
+    ],
+    solution: [
+      [null, "A", "B", null],
+      ["C", "D", "@", "E"],
+      [null, "F", "G", "H"],
+    ],
+    clues: { Across: [[3, "CD"]], Down: [[1, "ADF"]] },
+  });
+
+  it("should classify cells using the puzzle's block character", () => {
+    expect(getIpuzCellKind(null, "@")).toBe("void");
+    expect(getIpuzCellKind("@", "@")).toBe("block");
+    expect(getIpuzCellKind({ cell: "@" }, "@")).toBe("block");
+    expect(getIpuzCellKind("#", "@")).toBe("cell");
+    expect(getIpuzCellKind("_", "@")).toBe("cell");
+    expect(getIpuzCellKind(0)).toBe("cell");
+  });
+
+  it("should separate blocks from voids", () => {
+    const { state, solution } = loadIpuzPuzzle(createPuzzle());
+
+    expect(state.grid).toEqual([
+      [true, false, false, true],
+      [false, false, true, false],
+      [true, false, false, false],
+    ]);
+    expect(state.voids).toEqual([
+      [true, false, false, true],
+      [false, false, false, false],
+      [true, false, false, false],
+    ]);
+    expect(solution[1][2]).toBe("");
+    expect(solution[0][0]).toBe("");
+    expect(state.activeCell).toEqual([0, 1]);
+  });
+
+  it("should treat voids as word boundaries when navigating", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const { grid, rows, columns } = state;
+
+    expect(calculateClueNumbers(grid, rows, columns)).toEqual([
+      [0, 1, 2, 0],
+      [3, 0, 0, 4],
+      [0, 5, 6, 0],
+    ]);
+    // The across word in row 2 starts after the void, not at the edge
+    expect(findWordStart(grid, 2, 3, true)).toEqual([2, 1]);
+    // Arrow navigation skips over voids
+    expect(findNextWhiteCell(grid, 1, 0, "up", rows, columns)).toBeNull();
+    expect(findNextWhiteCell(grid, 0, 2, "right", rows, columns)).toBeNull();
+  });
+});
+
+describe("resolveClueNumbering", () => {
+  // 2x3 grid with no blocks; the puzzle skips number 2 on purpose and
+  // labels the last cell "A":
+  //   1  3  4
+  //   5  .  A
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 3, height: 2 },
+    puzzle: [
+      [1, { cell: 3 }, "4"],
+      [5, 0, "A"],
+    ],
+    clues: { Across: [[1, "Top"]], Down: [[3, "Middle"]] },
+  });
+  const grid = [
+    [false, false, false],
+    [false, false, false],
+  ];
+
+  it("should prefer the puzzle's own numbers and labels in auto mode", () => {
+    const numbering = resolveClueNumbering(createPuzzle(), grid);
+
+    expect(numbering.source).toBe("puzzle");
+    expect(numbering.clueNumbers).toEqual([
+      [1, 3, 4],
+      [5, 0, 0],
+    ]);
+    expect(numbering.cellLabels).toEqual([
+      ["1", "3", "4"],
+      ["5", null, "A"],
+    ]);
+  });
+
+  it("should report cells where the puzzle disagrees with the layout", () => {
+    const { mismatches } = resolveClueNumbering(createPuzzle(), grid);
+
+    expect(mismatches).toEqual([
+      { row: 0, col: 1, declared: 3, computed: 2 },
+      { row: 0, col: 2, declared: 4, computed: 3 },
+      { row: 1, col: 0, declared: 5, computed: 4 },
+    ]);
+  });
+
+  it("should compute numbering when asked or when the puzzle has none", () => {
+    const computed = resolveClueNumbering(createPuzzle(), grid, "computed");
+    expect(computed.source).toBe("computed");
+    expect(computed.cellLabels).toBeNull();
+    expect(computed.clueNumbers).toEqual([
+      [1, 2, 3],
+      [4, 0, 0],
+    ]);
+
+    const unnumbered = createPuzzle();
+    unnumbered.puzzle = [
+      [0, 0, 0],
+      [0, 0, 0],
+    ];
+    const auto = resolveClueNumbering(unnumbered, grid);
+    expect(auto.source).toBe("computed");
+    expect(auto.mismatches).toEqual([]);
+  });
+
+  it("should carry the resolved numbering into the solver state", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    expect(state.clueNumbers?.[0]).toEqual([1, 3, 4]);
+    expect(state.cellLabels?.[1][2]).toBe("A");
+  });
+});
+
+describe("getIpuzCellStyle", () => {
+  it("should normalize inline ipuz styles", () => {
+    expect(
+      getIpuzCellStyle({
+        cell: 1,
+        style: {
+          shapebg: "circle",
+          color: "FFCC00",
+          colortext: "#333",
+          highlight: true,
+          divided: "/",
+          mark: { TL: "a", BR: "" },
+        },
+      }),
+    ).toEqual({
+      shape: "circle",
+      backgroundColor: "#FFCC00",
+      textColor: "#333",
+      highlight: true,
+      divided: "forward",
+      marks: { TL: "a" },
+    });
+  });
+
+  it("should resolve named styles and ignore unstyled cells", () => {
+    const styles = { theme: { shapebg: "circle", color: 3 } };
+    expect(getIpuzCellStyle({ cell: 0, style: "theme" }, styles)).toEqual({
+      shape: "circle",
+    });
+    expect(getIpuzCellStyle({ cell: 0, style: "missing" }, styles)).toBeNull();
+    expect(getIpuzCellStyle({ cell: 0, style: { divided: "?" } })).toBeNull();
+    expect(getIpuzCellStyle(5)).toBeNull();
+  });
+
+  it("should carry cell styles into the solver state", () => {
+    const { state } = loadIpuzPuzzle({
+      version: "http://ipuz.org/v2",
+      kind: ["http://ipuz.org/crossword#1"],
+      dimensions: { width: 2, height: 1 },
+      puzzle: [[{ cell: 1, style: { shapebg: "circle" } }, 0]],
+      clues: { Across: [[1, "AB"]], Down: [] },
+    });
+    expect(state.cellStyles).toEqual([[{ shape: "circle" }, null]]);
+
+    const plain = loadIpuzPuzzle({
+      version: "http://ipuz.org/v2",
+      kind: ["http://ipuz.org/crossword#1"],
+      dimensions: { width: 2, height: 1 },
+      puzzle: [[1, 0]],
+      clues: { Across: [[1, "AB"]], Down: [] },
+    });
+    expect(plain.state.cellStyles).toBeUndefined();
+  });
+});
+
+describe("barred grids", () => {
+  // 3x3 grid without blocks; "|" and "_" mark bars:
+  //   1 | 2  3
+  //   4   .  .
+  //          _
+  //   5   .  .
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 3, height: 3 },
+    styles: { barLeft: { barred: "L" } },
+    puzzle: [
+      [{ cell: 0, style: { barred: "R" } }, { cell: 0, style: "barLeft" }, 0],
+      [0, 0, 0],
+      [0, 0, { cell: 0, style: { barred: "TR" } }],
+    ],
+    clues: { Across: [[2, "BC"]], Down: [[1, "ADG"]] },
+  });
+
+  it("should collect bars from inline and named styles", () => {
+    expect(getIpuzWalls(createPuzzle().puzzle, createPuzzle().styles)).toEqual({
+      right: [
+        [true, false, false],
+        [false, false, false],
+        [false, false, false],
+      ],
+      bottom: [
+        [false, false, false],
+        [false, false, true],
+        [false, false, false],
+      ],
+    });
+    expect(getIpuzWalls([[0, 0]])).toBeNull();
+  });
+
+  it("should only number cells that start words of two or more letters", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    expect(state.clueNumbers).toEqual([
+      [1, 2, 3],
+      [4, 0, 0],
+      [5, 0, 0],
+    ]);
+  });
+
+  it("should treat bars as word boundaries when navigating", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const { grid, rows, columns, walls, letters } = state;
+    const clueNumbers = state.clueNumbers!;
+
+    expect(findWordStart(grid, 0, 2, true, walls)).toEqual([0, 1]);
+    expect(findNextCellInWord(grid, 0, 0, "across", rows, columns, walls)).toBe(
+      null,
+    );
+    expect(
+      findClueNumberForCell(0, 0, "across", grid, clueNumbers, walls),
+    ).toBeNull();
+    expect(findClueNumberForCell(2, 2, "down", grid, clueNumbers, walls)).toBe(
+      null,
+    );
+    expect(
+      findNextClueNumber(null, "across", grid, clueNumbers, 3, 3, walls),
+    ).toBe(2);
+    expect(
+      analyzeCurrentWord(grid, letters, 0, 2, "down", rows, columns, walls)
+        .wordCells,
+    ).toEqual([
+      [0, 2],
+      [1, 2],
+    ]);
+    // Arrow navigation crosses bars
+    expect(findNextWhiteCell(grid, 0, 0, "right", rows, columns)).toEqual([
+      0, 1,
+    ]);
+  });
+});
+
+describe("rebus entries", () => {
+  const grid = [[false, false]];
+
+  it("should keep multi-letter solution cells whole", () => {
+    expect(getIpuzSolutionValue("STAR")).toBe("STAR");
+    expect(getIpuzSolutionValue({ value: "ONE" })).toBe("ONE");
+    expect(getIpuzSolutionValue("#")).toBe("");
+    expect(getIpuzSolutionValue(null)).toBe("");
+
+    const { solution } = loadIpuzPuzzle({
+      version: "http://ipuz.org/v2",
+      kind: ["http://ipuz.org/crossword#1"],
+      dimensions: { width: 2, height: 1 },
+      puzzle: [[1, 0]],
+      solution: [["STAR", { value: "T" }]],
+      clues: { Across: [[1, "STAR T"]], Down: [] },
+    });
+    expect(solution).toEqual([["STAR", "T"]]);
+  });
+
+  it("should store a multi-letter entry in a single cell", () => {
+    const result = processLetterChange({
+      grid,
+      letters: [["", ""]],
+      validatedCells: null,
+      activeClueNumber: 1,
+      clueOrientation: "across",
+      rows: 1,
+      columns: 2,
+      row: 0,
+      col: 0,
+      letter: "STAR",
+    });
+    expect(result?.newLetters).toEqual([["STAR", ""]]);
+    expect(result?.newActiveCell).toEqual([0, 1]);
+  });
+
+  it("should compare whole entries when checking answers", () => {
+    const solution = [["STAR", "T"]];
+    expect(areAllAnswersCorrect(grid, [["star", "T"]], solution)).toBe(true);
+    expect(areAllAnswersCorrect(grid, [["S", "T"]], solution)).toBe(false);
+  });
+});
+
+describe("givens", () => {
+  // 1x3 across word "CAT" with "A" given twice over: once through `value`
+  // and once through a plain string cell in a second row
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 3, height: 2 },
+    puzzle: [
+      [1, { cell: 0, value: "a" }, 2],
+      [3, "O", "B"],
+    ],
+    solution: [
+      ["C", "A", "T"],
+      ["C", "O", "W"],
+    ],
+    clues: {
+      Across: [
+        [1, "Feline"],
+        [3, "Bovine"],
+      ],
+      Down: [[1, "CC"]],
+    },
+  });
+
+  it("should read givens from values and matching string cells", () => {
+    expect(getIpuzGiven({ cell: 1, value: "x" }, "X")).toBe("X");
+    expect(getIpuzGiven("O", "O")).toBe("O");
+    // Strings that don't match the solution are labels, not givens
+    expect(getIpuzGiven("B", "W")).toBeNull();
+    expect(getIpuzGiven("12", "12")).toBeNull();
+  });
+
+  it("should pre-fill givens and keep them out of the labels", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    expect(state.letters).toEqual([
+      ["", "A", ""],
+      ["", "O", ""],
+    ]);
+    expect(state.givens).toEqual([
+      [false, true, false],
+      [false, true, false],
+    ]);
+    expect(state.cellLabels?.[1]).toEqual(["3", null, "B"]);
+  });
+
+  it("should refuse to overwrite or clear givens", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const input = {
+      grid: state.grid,
+      letters: state.letters,
+      validatedCells: null,
+      activeClueNumber: 1,
+      clueOrientation: "across" as const,
+      rows: state.rows,
+      columns: state.columns,
+      lockedCells: state.givens,
+    };
+
+    expect(
+      processLetterChange({ ...input, row: 0, col: 1, letter: "X" }),
+    ).toBeNull();
+
+    // Typing before a given skips over it
+    const typed = processLetterChange({
+      ...input,
+      row: 0,
+      col: 0,
+      letter: "C",
+    });
+    expect(typed?.newActiveCell).toEqual([0, 2]);
+
+    // Deleting on a given moves back without clearing it
+    const deleted = processLetterChange({
+      ...input,
+      letters: [
+        ["C", "A", ""],
+        ["", "O", ""],
+      ],
+      row: 0,
+      col: 1,
+      letter: "",
+    });
+    expect(deleted?.newLetters[0]).toEqual(["", "A", ""]);
+    expect(deleted?.newActiveCell).toEqual([0, 0]);
+  });
+});
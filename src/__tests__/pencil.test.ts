@@ -0,0 +1,50 @@
+import { describe, it, expect } from "@jest/globals";
+import { processLetterChange } from "../utils";
+
+describe("pencil mode", () => {
+  const input = {
+    grid: [[false, false, false]],
+    letters: [["", "", ""]],
+    validatedCells: null,
+    activeClueNumber: 1,
+    clueOrientation: "across" as const,
+    rows: 1,
+    columns: 3,
+  };
+
+  it("should flag letters typed in pencil", () => {
+    const result = processLetterChange({
+      ...input,
+      pencil: true,
+      row: 0,
+      col: 0,
+      letter: "C",
+    });
+    expect(result?.newLetters[0]).toEqual(["C", "", ""]);
+    expect(result?.newPencilled[0]).toEqual([true, false, false]);
+  });
+
+  it("should confirm pencilled letters typed over in pen", () => {
+    const result = processLetterChange({
+      ...input,
+      letters: [["C", "A", ""]],
+      pencilled: [[true, true, false]],
+      row: 0,
+      col: 1,
+      letter: "A",
+    });
+    expect(result?.newPencilled[0]).toEqual([true, false, false]);
+  });
+
+  it("should drop the flag when a pencilled letter is deleted", () => {
+    const result = processLetterChange({
+      ...input,
+      letters: [["C", "A", ""]],
+      pencilled: [[true, true, false]],
+      row: 0,
+      col: 0,
+      letter: "",
+    });
+    expect(result?.newPencilled[0]).toEqual([false, true, false]);
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "@jest/globals";
+import { loadIpuzPuzzle } from "../loader";
+import { getGridProgress } from "../utils";
+import { IPuzPuzzle } from "../types/ipuz";
+
+describe("solve progress", () => {
+  // "A" and "O" are given
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 3, height: 2 },
+    puzzle: [
+      [1, { cell: 0, value: "A" }, 2],
+      [3, { cell: 0, value: "O" }, 0],
+    ],
+    solution: [
+      ["C", "A", "T"],
+      ["C", "O", "W"],
+    ],
+    clues: {
+      Across: [
+        [1, "Feline"],
+        [3, "Bovine"],
+      ],
+      Down: [[1, "CC"]],
+    },
+  });
+
+  it("should count filled and correct cells", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const letters = [
+      ["C", "A", "X"],
+      ["", "O", ""],
+    ];
+    const solution = [
+      ["C", "A", "T"],
+      ["C", "O", "W"],
+    ];
+
+    expect(getGridProgress({ ...state, letters }, solution)).toEqual({
+      filledCells: 4,
+      totalCells: 6,
+      correctCells: 3,
+    });
+    expect(getGridProgress(state, null).correctCells).toBeNull();
+  });
+});
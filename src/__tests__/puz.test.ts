@@ -0,0 +1,308 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  computePuzChecksums,
+  decodePuz,
+  parsePuz,
+  puzChecksum,
+  serializePuz,
+  verifyPuzChecksums,
+} from "../puz";
+import { IPuzPuzzle } from "../types/ipuz";
+
+describe("Across Lite .puz parsing", () => {
+  // 3x3 grid:
+  //   C A T
+  //   A # O
+  //   R O W
+  const solution = [
+    ["C", "A", "T"],
+    ["A", ".", "O"],
+    ["R", "O", "W"],
+  ];
+  const playerState = [
+    ["C", "-", "-"],
+    ["-", ".", "-"],
+    ["-", "-", "W"],
+  ];
+  // Across Lite order: 1A, 1D, 2D, 3A
+  const clues = ["Feline", "Auto", "Pull", "Line"];
+
+  const bytesOf = (text: string) =>
+    Array.from(text).map((ch) => ch.charCodeAt(0));
+
+  const section = (title: string, data: number[]) => [
+    ...bytesOf(title),
+    data.length & 0xff,
+    data.length >> 8,
+    puzChecksum(data) & 0xff,
+    puzChecksum(data) >> 8,
+    ...data,
+    0,
+  ];
+
+  const buildPuz = (extra: number[] = []): ArrayBuffer => {
+    const file = {
+      solution,
+      playerState,
+      title: "Tiny",
+      author: "Tester",
+      copyright: "(c) 2024",
+      clues,
+      notes: "A note",
+      version: "1.3",
+    };
+    const cib = [3, 3, clues.length, 0, 0x01, 0x00, 0x00, 0x00];
+    const sums = computePuzChecksums(cib, file);
+
+    const header = new Array(0x34).fill(0);
+    header[0x00] = sums.global & 0xff;
+    header[0x01] = sums.global >> 8;
+    bytesOf("ACROSS&DOWN").forEach((b, i) => (header[0x02 + i] = b));
+    header[0x0e] = sums.cib & 0xff;
+    header[0x0f] = sums.cib >> 8;
+    sums.maskedLow.forEach((b, i) => (header[0x10 + i] = b));
+    sums.maskedHigh.forEach((b, i) => (header[0x14 + i] = b));
+    bytesOf("1.3").forEach((b, i) => (header[0x18 + i] = b));
+    cib.forEach((b, i) => (header[0x2c + i] = b));
+
+    const strings = [
+      file.title,
+      file.author,
+      file.copyright,
+      ...clues,
+      file.notes,
+    ]
+      .map((text) => [...bytesOf(text), 0])
+      .reduce((all, part) => all.concat(part), []);
+
+    const bytes = [
+      ...header,
+      ...bytesOf(solution.map((row) => row.join("")).join("")),
+      ...bytesOf(playerState.map((row) => row.join("")).join("")),
+      ...strings,
+      ...extra,
+    ];
+    return new Uint8Array(bytes).buffer;
+  };
+
+  it("should decode metadata, clues and the solution", () => {
+    const puzzle = parsePuz(buildPuz());
+
+    expect(puzzle.dimensions).toEqual({ width: 3, height: 3 });
+    expect(puzzle.metadata).toEqual({
+      title: "Tiny",
+      author: "Tester",
+      copyright: "(c) 2024",
+      notes: "A note",
+    });
+    expect(puzzle.clues.Across).toEqual([
+      [1, "Feline"],
+      [3, "Line"],
+    ]);
+    expect(puzzle.clues.Down).toEqual([
+      [1, "Auto"],
+      [2, "Pull"],
+    ]);
+    expect(puzzle.solution).toEqual([
+      ["C", "A", "T"],
+      ["A", null, "O"],
+      ["R", "O", "W"],
+    ]);
+    expect(puzzle.puzzle[0]).toEqual([{ cell: 1 }, 0, { cell: 2 }]);
+    expect(puzzle.puzzle[1][1]).toBe("#");
+    expect(puzzle.saved?.[0]).toEqual(["C", "", ""]);
+  });
+
+  // The same file with its checksums worked out by hand rather than by
+  // computePuzChecksums: global 0x0EF6, CIB 0x5200, and the solution,
+  // player grid and text parts 0xDDA3, 0xF983 and 0x8F2A masked with
+  // "ICHEATED"
+  const KNOWN_GOOD_PUZ =
+    "f60e4143524f535326444f574e00005249e0cb6f1389bccb312e330000000000" +
+    "0000000000000000000000000303040001000000434154412e4f524f57432d2d" +
+    "2d2e2d2d2d5754696e79005465737465720028632920323032340046656c696e" +
+    "65004175746f0050756c6c004c696e650041206e6f746500";
+
+  it("should match a file with hand-computed checksums", () => {
+    const bytes = new Uint8Array(
+      KNOWN_GOOD_PUZ.match(/../g)!.map((pair) => parseInt(pair, 16)),
+    );
+    expect(verifyPuzChecksums(bytes.buffer).valid).toBe(true);
+    expect(new Uint8Array(buildPuz())).toEqual(bytes);
+    expect(
+      computePuzChecksums([3, 3, 4, 0, 0x01, 0, 0, 0], {
+        solution,
+        playerState,
+        title: "Tiny",
+        author: "Tester",
+        copyright: "(c) 2024",
+        clues,
+        notes: "A note",
+        version: "1.3",
+      }),
+    ).toEqual({
+      global: 0x0ef6,
+      cib: 0x5200,
+      maskedLow: [0x49, 0xe0, 0xcb, 0x6f],
+      maskedHigh: [0x13, 0x89, 0xbc, 0xcb],
+    });
+  });
+
+  it("should verify header checksums", () => {
+    const buffer = buildPuz();
+    expect(verifyPuzChecksums(buffer).valid).toBe(true);
+
+    // Corrupt a clue letter; the global and masked checksums no longer match
+    const bytes = new Uint8Array(buffer);
+    const clueOffset = bytes.indexOf("F".charCodeAt(0), 0x34 + 18);
+    bytes[clueOffset] = "G".charCodeAt(0);
+
+    const report = verifyPuzChecksums(bytes.buffer);
+    expect(report.valid).toBe(false);
+    expect(report.global).toBe(false);
+    expect(report.cib).toBe(true);
+    expect(() => parsePuz(bytes.buffer, { strict: true })).toThrow(
+      "checksum mismatch",
+    );
+  });
+
+  it("should decode rebus, markup and timer extension sections", () => {
+    const grbs = [0, 0, 2, 0, 0, 0, 0, 0, 0];
+    const rtbl = bytesOf(" 1:TEA;");
+    const gext = [0x80, 0, 0, 0, 0, 0, 0, 0, 0x40];
+    const ltim = bytesOf("125,1");
+    const buffer = buildPuz([
+      ...section("GRBS", grbs),
+      ...section("RTBL", rtbl),
+      ...section("GEXT", gext),
+      ...section("LTIM", ltim),
+    ]);
+
+    const file = decodePuz(buffer);
+    expect(file.timer).toEqual({ elapsedSeconds: 125, running: false });
+    expect(file.checksums.extensions).toEqual({
+      GRBS: true,
+      RTBL: true,
+      GEXT: true,
+      LTIM: true,
+    });
+
+    const puzzle = parsePuz(buffer);
+    expect(puzzle.solution?.[0][2]).toBe("TEA");
+    expect(puzzle.puzzle[0][0]).toEqual({
+      cell: 1,
+      style: { shapebg: "circle" },
+    });
+  });
+
+  it("should reject buffers without the Across Lite header", () => {
+    expect(() => parsePuz(new Uint8Array(64).buffer)).toThrow(
+      "missing ACROSS&DOWN header",
+    );
+  });
+});
+
+describe("Across Lite .puz serialization", () => {
+  const puzzle: IPuzPuzzle = {
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 3, height: 3 },
+    puzzle: [
+      [{ cell: 1, style: { shapebg: "circle" } }, 0, { cell: 2 }],
+      [0, "#", 0],
+      [{ cell: 3 }, 0, 0],
+    ],
+    clues: {
+      Across: [
+        [1, "Feline"],
+        [3, "Line"],
+      ],
+      Down: [
+        [1, "Auto"],
+        [2, "Pull"],
+      ],
+    },
+    solution: [
+      ["C", "A", "TEA"],
+      ["A", null, "O"],
+      ["R", "O", "W"],
+    ],
+    metadata: { title: "Tiny", author: "Tester", notes: "A note" },
+  };
+
+  const letters = [
+    ["C", "", "TEA"],
+    ["X", "", ""],
+    ["", "", "W"],
+  ];
+  const validatedCells = [
+    [true, undefined, undefined],
+    [false, undefined, undefined],
+    [undefined, undefined, undefined],
+  ];
+
+  it("should write a file whose checksums verify", () => {
+    const buffer = serializePuz(puzzle, { letters, validatedCells }, 95);
+    expect(verifyPuzChecksums(buffer)).toEqual({
+      global: true,
+      cib: true,
+      maskedLow: true,
+      maskedHigh: true,
+      extensions: {
+        GRBS: true,
+        RTBL: true,
+        LTIM: true,
+        GEXT: true,
+        RUSR: true,
+      },
+      valid: true,
+    });
+  });
+
+  it("should round-trip the puzzle, fill, timer and markup", () => {
+    const revealed = [
+      [false, false, false],
+      [false, false, false],
+      [false, false, true],
+    ];
+    const buffer = serializePuz(
+      puzzle,
+      { letters, validatedCells, revealed },
+      95,
+    );
+    const file = decodePuz(buffer);
+    expect(file.timer).toEqual({ elapsedSeconds: 95, running: false });
+    expect(file.markup?.[0][0]).toBe(0x80);
+    expect(file.markup?.[1][0]).toBe(0x20);
+    expect(file.markup?.[2][2]).toBe(0x40);
+
+    const parsed = parsePuz(buffer, { strict: true });
+    expect(parsed.clues).toEqual(puzzle.clues);
+    expect(parsed.solution).toEqual(puzzle.solution);
+    expect(parsed.metadata).toEqual(puzzle.metadata);
+    expect(parsed.saved).toEqual([
+      ["C", "", "TEA"],
+      ["X", null, ""],
+      ["", "", "W"],
+    ]);
+  });
+
+  it("should omit optional sections when there is nothing to write", () => {
+    const plain: IPuzPuzzle = {
+      ...puzzle,
+      puzzle: [
+        [{ cell: 1 }, 0, { cell: 2 }],
+        [0, "#", 0],
+        [{ cell: 3 }, 0, 0],
+      ],
+      solution: [
+        ["C", "A", "T"],
+        ["A", null, "O"],
+        ["R", "O", "W"],
+      ],
+    };
+    const file = decodePuz(serializePuz(plain));
+    expect(file.sections).toEqual([]);
+    expect(file.checksums.valid).toBe(true);
+  });
+});
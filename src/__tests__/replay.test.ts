@@ -0,0 +1,103 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  SolveRecording,
+  createSolveRecording,
+  getRecordingDuration,
+  getReplayEvents,
+  getReplayStateAt,
+  parseRecording,
+  serializeRecording,
+} from "../replay";
+import { loadIpuzPuzzle } from "../loader";
+import { IPuzPuzzle } from "../types/ipuz";
+
+describe("solve replay", () => {
+  // 2x2 open grid: 1 and 3 Across, 1 and 2 Down
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 2, height: 2 },
+    puzzle: [
+      [1, 2],
+      [3, 0],
+    ],
+    solution: [
+      ["A", "B"],
+      ["C", "D"],
+    ],
+    clues: {
+      Across: [
+        [1, "First"],
+        [3, "Second"],
+      ],
+      Down: [
+        [1, "Third"],
+        [2, "Fourth"],
+      ],
+    },
+  });
+
+  const createRecording = (): SolveRecording => ({
+    ...createSolveRecording({ rows: 2, columns: 2 }),
+    events: [
+      [0, "m", 0, 0, "a"],
+      [1200, "c", 0, 0, "A"],
+      [1200, "m", 0, 1, "a"],
+      [2500, "c", 0, 1, "X"],
+      [4000, "m", 0, 1, "d"],
+      [5000, "c", 0, 1, ""],
+    ],
+  });
+
+  it("should log changed cells and cursor moves between states", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const next = {
+      ...state,
+      letters: [
+        ["A", ""],
+        ["", ""],
+      ],
+      activeCell: [0, 1] as [number, number],
+    };
+    expect(getReplayEvents(state, next, 800)).toEqual([
+      [800, "c", 0, 0, "A"],
+      [800, "m", 0, 1, "a"],
+    ]);
+
+    // Turning in place is a cursor move too
+    expect(
+      getReplayEvents(next, { ...next, clueOrientation: "down" }, 900),
+    ).toEqual([[900, "m", 0, 1, "d"]]);
+    expect(getReplayEvents(next, next, 1000)).toEqual([]);
+  });
+
+  it("should rebuild the grid at any point in the recording", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const recording = createRecording();
+
+    const early = getReplayStateAt(state, recording, 1500);
+    expect(early.letters).toEqual([
+      ["A", ""],
+      ["", ""],
+    ]);
+    expect(early.activeCell).toEqual([0, 1]);
+    expect(early.activeClueNumber).toBe(1);
+
+    const later = getReplayStateAt(state, recording, 4500);
+    expect(later.letters[0][1]).toBe("X");
+    expect(later.clueOrientation).toBe("down");
+    expect(later.activeClueNumber).toBe(2);
+
+    expect(getReplayStateAt(state, recording, 10000).letters[0][1]).toBe("");
+    expect(getRecordingDuration(recording)).toBe(5000);
+  });
+
+  it("should round-trip recordings through JSON", () => {
+    const recording = createRecording();
+    expect(parseRecording(serializeRecording(recording))).toEqual(recording);
+    expect(parseRecording("not json")).toBeNull();
+    expect(parseRecording(JSON.stringify({ version: 2, events: [] }))).toBe(
+      null,
+    );
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect } from "@jest/globals";
+import { loadIpuzPuzzle } from "../loader";
+import {
+  getCellsInScope,
+  getLockedCells,
+  countRevealedCells,
+  processLetterChange,
+  revealCells,
+} from "../utils";
+import { IPuzPuzzle } from "../types/ipuz";
+
+describe("revealing answers", () => {
+  // "A" and "O" are given
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 3, height: 2 },
+    puzzle: [
+      [1, { cell: 0, value: "A" }, 2],
+      [3, { cell: 0, value: "O" }, 0],
+    ],
+    solution: [
+      ["C", "A", "T"],
+      ["C", "O", "W"],
+    ],
+    clues: {
+      Across: [
+        [1, "Feline"],
+        [3, "Bovine"],
+      ],
+      Down: [[1, "CC"]],
+    },
+  });
+
+  it("should reveal the active cell, word or puzzle", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const active = { ...state, activeCell: [0, 0] as [number, number] };
+
+    expect(getCellsInScope(active, "cell")).toEqual([[0, 0]]);
+    expect(getCellsInScope(active, "word")).toEqual([
+      [0, 0],
+      [0, 1],
+      [0, 2],
+    ]);
+    expect(getCellsInScope(active, "puzzle")).toHaveLength(6);
+    expect(getCellsInScope({ ...active, activeCell: null }, "word")).toEqual(
+      [],
+    );
+  });
+
+  it("should skip locked and correct cells and mark the rest revealed", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const letters = [
+      ["C", "A", "X"],
+      ["", "O", ""],
+    ];
+    const result = revealCells(
+      { ...state, letters },
+      null,
+      [
+        ["C", "A", "T"],
+        ["C", "O", "W"],
+      ],
+      [
+        [0, 0],
+        [0, 1],
+        [0, 2],
+      ],
+    );
+
+    expect(result.letters[0]).toEqual(["C", "A", "T"]);
+    expect(result.revealedCells).toEqual([[0, 2]]);
+    expect(result.revealed[0]).toEqual([false, false, true]);
+    expect(result.validatedCells[0][2]).toBe(true);
+    expect(countRevealedCells(result.revealed)).toBe(1);
+    expect(countRevealedCells(null)).toBe(0);
+
+    // Revealed cells are locked alongside the puzzle's givens
+    expect(
+      getLockedCells({ givens: state.givens, revealed: result.revealed }),
+    ).toEqual([
+      [false, true, true],
+      [false, true, false],
+    ]);
+  });
+
+  it("should keep a revealed cell's letter and mark when typed or deleted on", () => {
+    const input = {
+      grid: [[false, false, false]],
+      letters: [["C", "A", "T"]],
+      validatedCells: [[undefined, undefined, true]],
+      activeClueNumber: 1,
+      clueOrientation: "across" as const,
+      rows: 1,
+      columns: 3,
+      row: 0,
+      col: 2,
+      lockedCells: [[false, false, true]],
+      autocheck: true,
+      solution: [["C", "A", "T"]],
+    };
+
+    expect(processLetterChange({ ...input, letter: "X" })).toBeNull();
+
+    const deleted = processLetterChange({ ...input, letter: "" });
+    expect(deleted?.newLetters[0][2]).toBe("T");
+    expect(deleted?.newValidatedCells[0][2]).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "@jest/globals";
+import { loadIpuzPuzzle } from "../loader";
+import {
+  getClueSolveSeconds,
+  getCluesForCells,
+  createSolveStats,
+  recordClueChecks,
+  updateSolveStats,
+} from "../utils";
+import { IPuzPuzzle } from "../types/ipuz";
+
+describe("solve statistics", () => {
+  // 2x2 open grid: 1 and 3 Across, 1 and 2 Down
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 2, height: 2 },
+    puzzle: [
+      [1, 2],
+      [3, 0],
+    ],
+    solution: [
+      ["A", "B"],
+      ["C", "D"],
+    ],
+    clues: {
+      Across: [
+        [1, "First"],
+        [3, "Second"],
+      ],
+      Down: [
+        [1, "Third"],
+        [2, "Fourth"],
+      ],
+    },
+  });
+
+  it("should start with an entry for every clue", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const stats = createSolveStats(state);
+    expect(stats.clues.map((clue) => [clue.number, clue.orientation])).toEqual([
+      [1, "across"],
+      [3, "across"],
+      [1, "down"],
+      [2, "down"],
+    ]);
+    expect(stats.clues[0]).toEqual({
+      number: 1,
+      orientation: "across",
+      firstEnteredAt: null,
+      completedAt: null,
+      checks: 0,
+      erasures: 0,
+    });
+  });
+
+  it("should record entering, completing and erasing answers", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const start = {
+      ...state,
+      activeCell: [1, 0] as [number, number],
+      activeClueNumber: 3,
+      clueOrientation: "across" as const,
+    };
+    let stats = updateSolveStats(createSolveStats(state), state, start, 5);
+    const find = (number: number, orientation: "across" | "down") =>
+      stats.clues.find(
+        (clue) => clue.number === number && clue.orientation === orientation,
+      )!;
+    expect(find(3, "across").firstEnteredAt).toBe(5);
+
+    const filled = {
+      ...start,
+      letters: [
+        ["", ""],
+        ["C", "D"],
+      ],
+    };
+    stats = updateSolveStats(stats, start, filled, 20);
+    expect(find(3, "across").completedAt).toBe(20);
+    expect(find(1, "down").completedAt).toBeNull();
+    expect(getClueSolveSeconds(find(3, "across"))).toBe(15);
+
+    const erased = {
+      ...filled,
+      letters: [
+        ["", ""],
+        ["C", ""],
+      ],
+    };
+    stats = updateSolveStats(stats, filled, erased, 30);
+    expect(find(3, "across").erasures).toBe(1);
+    expect(find(2, "down").erasures).toBe(1);
+    expect(find(3, "across").completedAt).toBeNull();
+    expect(stats.totalSeconds).toBe(30);
+  });
+
+  it("should count checks against the clues they cover", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const clues = getCluesForCells(state, [
+      [0, 0],
+      [0, 1],
+    ]);
+    expect(clues).toEqual([
+      { number: 1, orientation: "across" },
+      { number: 1, orientation: "down" },
+      { number: 2, orientation: "down" },
+    ]);
+
+    const stats = recordClueChecks(createSolveStats(state), clues);
+    expect(stats.clues.map((clue) => clue.checks)).toEqual([1, 0, 1, 1]);
+  });
+
+  it("should give answers filled from crossings no solving time", () => {
+    expect(
+      getClueSolveSeconds({
+        number: 1,
+        orientation: "across",
+        firstEnteredAt: null,
+        completedAt: 40,
+        checks: 0,
+        erasures: 0,
+      }),
+    ).toBe(0);
+  });
+});
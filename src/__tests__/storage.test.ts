@@ -0,0 +1,74 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  applySavedProgress,
+  createMemoryStorageAdapter,
+  createSavedProgress,
+  getProgressKey,
+  parseSavedProgress,
+} from "../storage";
+import { loadIpuzPuzzle } from "../loader";
+import { IPuzPuzzle } from "../types/ipuz";
+
+describe("progress persistence", () => {
+  // 1x3 across word "CAT" with the "A" given
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 3, height: 1 },
+    puzzle: [[1, { cell: 0, value: "A" }, 0]],
+    solution: [["C", "A", "T"]],
+    clues: { Across: [[1, "Feline"]], Down: [] },
+  });
+
+  it("should store, read and remove entries in memory", async () => {
+    const storage = createMemoryStorageAdapter({ existing: "1" });
+    expect(await storage.get("existing")).toBe("1");
+
+    await storage.set("key", "value");
+    expect(await storage.get("key")).toBe("value");
+    await storage.remove("key");
+    expect(await storage.get("key")).toBeNull();
+  });
+
+  it("should round-trip progress through JSON", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const saved = createSavedProgress(
+      { ...state, letters: [["C", "A", "X"]], activeCell: [0, 2] },
+      [[true, undefined, false]],
+      95,
+      false,
+    );
+
+    const parsed = parseSavedProgress(JSON.stringify(saved), state);
+    expect(parsed?.elapsedSeconds).toBe(95);
+    // Unchecked cells come back as undefined, not null
+    expect(parsed?.validatedCells).toEqual([[true, undefined, false]]);
+
+    const restored = applySavedProgress(state, parsed!);
+    expect(restored.letters).toEqual([["C", "A", "X"]]);
+    expect(restored.activeCell).toEqual([0, 2]);
+  });
+
+  it("should ignore entries that don't fit the puzzle", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const saved = createSavedProgress(state, null, 10, false);
+
+    expect(parseSavedProgress(null, state)).toBeNull();
+    expect(parseSavedProgress("not json", state)).toBeNull();
+    expect(
+      parseSavedProgress(JSON.stringify({ ...saved, columns: 4 }), state),
+    ).toBeNull();
+    expect(getProgressKey("daily-42")).toBe("xword-progress-daily-42");
+  });
+
+  it("should keep givens when restoring letters", () => {
+    const { state } = loadIpuzPuzzle(createPuzzle());
+    const saved = createSavedProgress(
+      { ...state, letters: [["C", "", "T"]] },
+      null,
+      0,
+      false,
+    );
+    expect(applySavedProgress(state, saved).letters).toEqual([["C", "A", "T"]]);
+  });
+});
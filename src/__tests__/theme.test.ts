@@ -0,0 +1,35 @@
+import { describe, it, expect } from "@jest/globals";
+import { getThemeVariables, isDarkTheme } from "../theme";
+
+describe("theming", () => {
+  it("should map theme tokens onto CSS custom properties", () => {
+    expect(
+      getThemeVariables({
+        base: "dark",
+        cellBackground: "#101820",
+        activeWord: "#3a2f6b",
+        fontFamily: "Inter, sans-serif",
+        circle: "",
+      }),
+    ).toEqual({
+      "--xword-cell-background": "#101820",
+      "--xword-active-word": "#3a2f6b",
+      "--xword-font-family": "Inter, sans-serif",
+    });
+  });
+
+  it("should leave named themes to the stylesheets", () => {
+    expect(getThemeVariables("dark")).toEqual({});
+    expect(getThemeVariables("system")).toEqual({});
+    expect(getThemeVariables(undefined)).toEqual({});
+  });
+
+  it("should pick the dark palette for dark themes", () => {
+    expect(isDarkTheme("dark", false)).toBe(true);
+    expect(isDarkTheme("light", true)).toBe(false);
+    expect(isDarkTheme("system", true)).toBe(true);
+    expect(isDarkTheme("system", false)).toBe(false);
+    expect(isDarkTheme({ highlight: "#ff0" }, true)).toBe(false);
+    expect(isDarkTheme({ base: "dark" }, false)).toBe(true);
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "@jest/globals";
+import {
+  closeLedgerInterval,
+  getLedgerElapsedMs,
+  isLedgerRunning,
+  openLedgerInterval,
+} from "../utils";
+
+describe("timer ledger", () => {
+  it("should only count time inside active intervals", () => {
+    let ledger = openLedgerInterval([], 1000);
+    expect(isLedgerRunning(ledger)).toBe(true);
+    expect(getLedgerElapsedMs(ledger, 4000)).toBe(3000);
+
+    ledger = closeLedgerInterval(ledger, 5000);
+    expect(isLedgerRunning(ledger)).toBe(false);
+    // Paused time doesn't count
+    expect(getLedgerElapsedMs(ledger, 60000)).toBe(4000);
+
+    ledger = openLedgerInterval(ledger, 60000);
+    expect(getLedgerElapsedMs(ledger, 62000)).toBe(6000);
+    expect(ledger).toHaveLength(2);
+  });
+
+  it("should ignore repeated opens and closes", () => {
+    const running = openLedgerInterval([], 1000);
+    expect(openLedgerInterval(running, 2000)).toBe(running);
+
+    const stopped = closeLedgerInterval(running, 3000);
+    expect(closeLedgerInterval(stopped, 4000)).toBe(stopped);
+    expect(closeLedgerInterval([], 4000)).toEqual([]);
+  });
+});
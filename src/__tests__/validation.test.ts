@@ -0,0 +1,111 @@
+import { describe, it, expect } from "@jest/globals";
+import { validateIpuz } from "../validation";
+import { IPuzPuzzle } from "../types/ipuz";
+
+describe("validateIpuz", () => {
+  // 3x3 grid with a single block in the middle:
+  //   1  .  2
+  //   .  #  .
+  //   3  .  .
+  const createPuzzle = (): IPuzPuzzle => ({
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width: 3, height: 3 },
+    puzzle: [
+      [{ cell: 1 }, 0, { cell: 2 }],
+      [0, "#", 0],
+      [{ cell: 3 }, 0, 0],
+    ],
+    solution: [
+      ["C", "A", "T"],
+      ["A", null, "O"],
+      ["R", "O", "W"],
+    ],
+    clues: {
+      Across: [
+        [1, "Feline"],
+        [3, "Line"],
+      ],
+      Down: [
+        [1, "Auto"],
+        [2, "Pull"],
+      ],
+    },
+  });
+
+  it("should accept a well-formed puzzle", () => {
+    const result = validateIpuz(createPuzzle());
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it("should reject non-objects and missing fields", () => {
+    expect(validateIpuz("nope").errors).toEqual([
+      { code: "invalid-type", path: "$", message: expect.any(String) },
+    ]);
+
+    const data: Partial<IPuzPuzzle> = createPuzzle();
+    delete data.clues;
+    const result = validateIpuz(data);
+    expect(result.valid).toBe(false);
+    expect(result.errors[0]).toMatchObject({
+      code: "missing-field",
+      path: "$.clues",
+    });
+  });
+
+  it("should report ragged rows and solution size mismatches", () => {
+    const data = createPuzzle();
+    data.puzzle[1] = [0, "#"];
+    data.solution?.pop();
+
+    const result = validateIpuz(data);
+    expect(result.errors.map((e) => [e.code, e.path])).toEqual([
+      ["ragged-row", "$.puzzle[1]"],
+      ["size-mismatch", "$.solution"],
+    ]);
+  });
+
+  it("should report clues that point at missing numbers", () => {
+    const data = createPuzzle();
+    data.clues.Down.push([7, "Nowhere"]);
+
+    const result = validateIpuz(data);
+    expect(result.errors).toEqual([
+      {
+        code: "unknown-clue-number",
+        path: "$.clues.Down[2]",
+        message: "Down clue 7 does not match any numbered cell",
+      },
+    ]);
+  });
+
+  it("should derive numbering from blocks when cells are unnumbered", () => {
+    const data = createPuzzle();
+    data.puzzle = [
+      [0, 0, 0],
+      [0, "#", 0],
+      [0, 0, 0],
+    ];
+    expect(validateIpuz(data).valid).toBe(true);
+  });
+
+  it("should warn about unknown kinds and reject non-crosswords", () => {
+    const data = createPuzzle();
+    data.kind.push("http://example.com/custom#1");
+    const result = validateIpuz(data);
+    expect(result.valid).toBe(true);
+    expect(result.warnings).toEqual([
+      {
+        code: "unknown-kind",
+        path: "$.kind[1]",
+        message: 'Unknown puzzle kind "http://example.com/custom#1"',
+      },
+    ]);
+
+    data.kind = ["http://ipuz.org/sudoku#1"];
+    expect(validateIpuz(data).errors[0]).toMatchObject({
+      code: "unsupported-kind",
+      path: "$.kind",
+    });
+  });
+});
@@ -0,0 +1,320 @@
+import { ClueOrientation } from "./types/crossword";
+
+/**
+ * COLLABORATIVE SOLVING
+ *
+ * Every letter change becomes an operation stamped with its author and a
+ * Lamport clock. Each cell remembers the stamp of the operation that last won
+ * it; an incoming operation wins when its clock is higher, with the author ID
+ * breaking ties, so every participant settles on the same grid whatever order
+ * the operations arrive in. Messages travel through a `CollaborationTransport`.
+ */
+
+export interface CollaborationOperation {
+  cell: [number, number];
+  /** The new letter, or "" for a deletion */
+  value: string;
+  /** ID of the participant who made the change */
+  author: string;
+  /** Lamport clock of the change */
+  clock: number;
+}
+
+/** Where a participant is in the grid, drawn in their color for everyone else */
+export interface ParticipantPresence {
+  author: string;
+  name?: string;
+  color: string;
+  activeCell: [number, number] | null;
+  clueOrientation: ClueOrientation;
+}
+
+export type CollaborationMessage =
+  | { type: "operations"; operations: CollaborationOperation[] }
+  | { type: "presence"; presence: ParticipantPresence }
+  | { type: "join"; author: string }
+  | { type: "leave"; author: string };
+
+/**
+ * Carries messages between participants. `send` should reach every other
+ * participant on the same puzzle; a participant's own messages need not come
+ * back to it.
+ */
+export interface CollaborationTransport {
+  send: (message: CollaborationMessage) => void;
+  /** Listens for messages from other participants; returns an unsubscribe function */
+  subscribe: (listener: (message: CollaborationMessage) => void) => () => void;
+  close?: () => void;
+}
+
+/** The author and clock of the operation that last won each cell */
+export type OperationStamps = (Pick<
+  CollaborationOperation,
+  "author" | "clock"
+> | null)[][];
+
+type CollaborationListener = (message: CollaborationMessage) => void;
+
+export const createOperationStamps = (
+  rows: number,
+  columns: number,
+): OperationStamps =>
+  Array.from({ length: rows }, () => Array(columns).fill(null));
+
+/** Orders operations by clock, then by author */
+export const compareOperations = (
+  a: Pick<CollaborationOperation, "author" | "clock">,
+  b: Pick<CollaborationOperation, "author" | "clock">,
+): number => {
+  if (a.clock !== b.clock) return a.clock - b.clock;
+  if (a.author === b.author) return 0;
+  return a.author < b.author ? -1 : 1;
+};
+
+/**
+ * Turns the difference between two letter grids into operations, one per
+ * changed cell, ticking the clock once for each.
+ */
+export const createLetterOperations = (
+  prevLetters: string[][],
+  nextLetters: string[][],
+  author: string,
+  clock: number,
+): CollaborationOperation[] => {
+  const operations: CollaborationOperation[] = [];
+  nextLetters.forEach((row, r) => {
+    if (row === prevLetters[r]) return;
+    row.forEach((value, c) => {
+      if (value !== (prevLetters[r]?.[c] ?? "")) {
+        operations.push({
+          cell: [r, c],
+          value,
+          author,
+          clock: clock + operations.length + 1,
+        });
+      }
+    });
+  });
+  return operations;
+};
+
+export interface MergeResult {
+  letters: string[][];
+  stamps: OperationStamps;
+  /** The operations that won their cell */
+  applied: CollaborationOperation[];
+}
+
+/**
+ * Applies operations that beat the stamp on their cell. Operations outside
+ * the grid or on locked cells are ignored.
+ */
+export const mergeOperations = (
+  letters: string[][],
+  stamps: OperationStamps,
+  operations: CollaborationOperation[],
+  lockedCells?: boolean[][] | null,
+): MergeResult => {
+  const newLetters = letters.map((row) => [...row]);
+  const newStamps = stamps.map((row) => [...row]);
+  const applied: CollaborationOperation[] = [];
+
+  operations.forEach((operation) => {
+    const [row, col] = operation.cell;
+    if (newLetters[row]?.[col] === undefined || lockedCells?.[row]?.[col]) {
+      return;
+    }
+    const stamp = newStamps[row][col];
+    if (stamp && compareOperations(operation, stamp) <= 0) return;
+
+    newLetters[row][col] = operation.value;
+    newStamps[row][col] = { author: operation.author, clock: operation.clock };
+    applied.push(operation);
+  });
+
+  return { letters: newLetters, stamps: newStamps, applied };
+};
+
+/** Every cell's winning operation, for bringing a new participant up to date */
+export const getStampedOperations = (
+  letters: string[][],
+  stamps: OperationStamps,
+): CollaborationOperation[] => {
+  const operations: CollaborationOperation[] = [];
+  stamps.forEach((row, r) =>
+    row.forEach((stamp, c) => {
+      if (stamp) {
+        operations.push({ cell: [r, c], value: letters[r][c], ...stamp });
+      }
+    }),
+  );
+  return operations;
+};
+
+const PARTICIPANT_COLORS = [
+  "#e4572e",
+  "#17bebb",
+  "#76b041",
+  "#9b5de5",
+  "#f15bb5",
+  "#ff9f1c",
+  "#2e86ab",
+  "#c1666b",
+];
+
+/** Picks a stable color for a participant from their ID */
+export const getParticipantColor = (author: string): string => {
+  let hash = 0;
+  for (let i = 0; i < author.length; i++) {
+    hash = (hash * 31 + author.charCodeAt(i)) | 0;
+  }
+  return PARTICIPANT_COLORS[Math.abs(hash) % PARTICIPANT_COLORS.length];
+};
+
+/**
+ * In-memory hub for tests and demos. Every transport from `connect()`
+ * delivers its messages to all the others, synchronously.
+ */
+export const createMemoryCollaborationHub = (): {
+  connect: () => CollaborationTransport;
+} => {
+  const peers = new Set<Set<CollaborationListener>>();
+  return {
+    connect: () => {
+      const listeners = new Set<CollaborationListener>();
+      peers.add(listeners);
+      return {
+        send: (message) => {
+          peers.forEach((peer) => {
+            if (peer !== listeners) {
+              peer.forEach((listener) => listener(message));
+            }
+          });
+        },
+        subscribe: (listener) => {
+          listeners.add(listener);
+          return () => {
+            listeners.delete(listener);
+          };
+        },
+        close: () => {
+          peers.delete(listeners);
+        },
+      };
+    },
+  };
+};
+
+const isCell = (value: unknown): value is [number, number] =>
+  Array.isArray(value) &&
+  value.length === 2 &&
+  value.every((n) => typeof n === "number" && Number.isInteger(n));
+
+const isOperation = (value: unknown): value is CollaborationOperation => {
+  const operation = value as CollaborationOperation | null;
+  return (
+    typeof operation === "object" &&
+    operation !== null &&
+    isCell(operation.cell) &&
+    typeof operation.value === "string" &&
+    typeof operation.author === "string" &&
+    typeof operation.clock === "number" &&
+    isFinite(operation.clock)
+  );
+};
+
+const isPresence = (value: unknown): value is ParticipantPresence => {
+  const presence = value as ParticipantPresence | null;
+  return (
+    typeof presence === "object" &&
+    presence !== null &&
+    typeof presence.author === "string" &&
+    typeof presence.color === "string" &&
+    (presence.name === undefined || typeof presence.name === "string") &&
+    (presence.activeCell === null || isCell(presence.activeCell)) &&
+    (presence.clueOrientation === "across" ||
+      presence.clueOrientation === "down")
+  );
+};
+
+/**
+ * Parses a message received from another participant.
+ *
+ * @returns The message, or null when the JSON is malformed or isn't a
+ * well-formed collaboration message
+ */
+export const parseCollaborationMessage = (
+  data: string,
+): CollaborationMessage | null => {
+  let message: CollaborationMessage;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  if (typeof message !== "object" || message === null) return null;
+
+  switch (message.type) {
+    case "operations":
+      return Array.isArray(message.operations) &&
+        message.operations.every(isOperation)
+        ? message
+        : null;
+    case "presence":
+      return isPresence(message.presence) ? message : null;
+    case "join":
+    case "leave":
+      return typeof message.author === "string" ? message : null;
+    default:
+      return null;
+  }
+};
+
+/**
+ * Transport over a WebSocket. Messages are sent as JSON; the server is
+ * expected to relay each one to the other clients solving the same puzzle.
+ * Messages sent while the socket is still connecting are queued, and
+ * incoming messages that aren't well-formed are dropped.
+ */
+export const createWebSocketTransport = (
+  url: string | URL,
+  protocols?: string | string[],
+): CollaborationTransport => {
+  const socket = new WebSocket(url, protocols);
+  const listeners = new Set<CollaborationListener>();
+  const queue: string[] = [];
+
+  socket.addEventListener("open", () => {
+    queue.splice(0).forEach((data) => socket.send(data));
+  });
+  // Binary frames arrive as ArrayBuffers rather than Blobs, so they can be
+  // decoded straight away
+  socket.binaryType = "arraybuffer";
+  socket.addEventListener("message", (event) => {
+    const data =
+      event.data instanceof ArrayBuffer
+        ? new TextDecoder().decode(event.data)
+        : String(event.data);
+    const message = parseCollaborationMessage(data);
+    if (!message) return; // Not one of ours
+    listeners.forEach((listener) => listener(message));
+  });
+
+  return {
+    send: (message) => {
+      const data = JSON.stringify(message);
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.send(data);
+      } else if (socket.readyState === WebSocket.CONNECTING) {
+        queue.push(data);
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    close: () => socket.close(),
+  };
+};
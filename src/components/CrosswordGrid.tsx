@@ -1,14 +1,16 @@
 import React, { useRef, useEffect, useState } from "react";
 import { ClueOrientation, CrosswordState } from "../types/crossword";
 import "../styles/CrosswordGrid.css";
+import { ParticipantPresence } from "../collaboration";
 import {
-  calculateClueNumbers,
+  getClueNumbers,
   findNextWhiteCell,
   findClueNumberForCell,
   isPartOfActiveClue,
   findFirstValidCell,
   handleTabNavigation,
   handleShiftTabNavigation,
+  getCellsInScope,
 } from "../utils";
 import { useCrosswordLetterHandler } from "../hooks/useCrosswordLetterHandler";
 
@@ -23,31 +25,64 @@ export interface CrosswordGridProps {
   >;
   disabled?: boolean;
   solution?: string[][] | null;
+  /** Check letters against the solution as they are typed */
+  autocheck?: boolean;
   onShowError?: () => void;
   onPuzzleComplete?: (completedGrid: (string | null)[][]) => void;
+  /** Called for Ctrl/Cmd+Z */
+  onUndo?: () => void;
+  /** Called for Shift+Ctrl/Cmd+Z */
+  onRedo?: () => void;
+  /** Other solvers whose cursor and active word are drawn in their color */
+  participants?: ParticipantPresence[];
+  /** Move keyboard focus to the active cell whenever it changes. Defaults to true */
+  autoFocus?: boolean;
 }
 
+// Characters accepted in a cell, one at a time or as part of a rebus entry
+const CELL_CHARACTER = /^[a-zA-Z0-9\-/:;()$&@".,?!']$/;
+
+/** Font size that lets a multi-letter entry fit inside its cell */
+const getEntryFontSize = (
+  text: string,
+  cellSize: number,
+): number | undefined =>
+  text.length > 1
+    ? Math.max(6, Math.floor((cellSize * 1.3) / (text.length + 1)))
+    : undefined;
+
 const CrosswordGrid: React.FC<CrosswordGridProps> = ({
   crosswordState,
   setCrosswordState,
   validatedCells,
   setValidatedCells,
   disabled = false,
+  autoFocus = true,
   solution = null,
+  autocheck = false,
   onShowError,
   onPuzzleComplete,
+  onUndo,
+  onRedo,
+  participants = [],
 }) => {
   const gridRef = useRef<HTMLDivElement>(null);
   const wrapperRef = useRef<HTMLDivElement>(null);
   const [cellSize, setCellSize] = useState<number>(32); // default fallback
 
   // Use the centralized letter handling hook with actual solution and callbacks
-  const { handleLetterChange } = useCrosswordLetterHandler({
+  const {
+    handleLetterChange,
+    toggleRebusEntry,
+    commitRebusEntry,
+    togglePencilMode,
+  } = useCrosswordLetterHandler({
     crosswordState,
     setCrosswordState,
     validatedCells: validatedCells || null,
     setValidatedCells: setValidatedCells || (() => {}),
     solution,
+    autocheck,
     onPuzzleComplete: onPuzzleComplete || (() => {}),
     onShowError: onShowError || (() => {}),
   });
@@ -57,12 +92,23 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
     rows,
     columns,
     grid,
+    voids,
+    walls,
+    givens,
+    revealed,
+    pencilled,
+    cellLabels,
+    cellStyles,
     letters,
     clueOrientation,
     activeClueNumber,
     activeCell,
+    rebusEntry,
   } = crosswordState;
 
+  // Irregular grids drop the container background so voids stay invisible
+  const hasVoids = !!voids && voids.some((row) => row.some(Boolean));
+
   // Internal implementation of handleClueOrientationChange
   const handleClueOrientationChange = (orientation: ClueOrientation) => {
     // Create a new state with the updated orientation
@@ -75,25 +121,12 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
     if (crosswordState.activeCell) {
       const [row, col] = crosswordState.activeCell;
 
-      // Find the starting cells for both horizontal and vertical words
-      const [horizontalStartRow, horizontalStartCol] = findWordStart(
-        crosswordState.grid,
-        row,
-        col,
-        true,
-      );
-      const [verticalStartRow, verticalStartCol] = findWordStart(
-        crosswordState.grid,
-        row,
-        col,
-        false,
-      );
-
-      // Get the clue numbers for both starting cells
+      // Get the clue numbers of the horizontal and vertical words
       const horizontalClueNumber =
-        clueNumbers[horizontalStartRow][horizontalStartCol];
+        findClueNumberForCell(row, col, "across", grid, clueNumbers, walls) ??
+        0;
       const verticalClueNumber =
-        clueNumbers[verticalStartRow][verticalStartCol];
+        findClueNumberForCell(row, col, "down", grid, clueNumbers, walls) ?? 0;
 
       // Always set the active clue number based on the new orientation
       if (orientation === "across" && horizontalClueNumber > 0) {
@@ -140,24 +173,11 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
       return;
     }
 
-    // Find the starting cells for both horizontal and vertical words
-    const [horizontalStartRow, horizontalStartCol] = findWordStart(
-      crosswordState.grid,
-      row,
-      col,
-      true,
-    );
-    const [verticalStartRow, verticalStartCol] = findWordStart(
-      crosswordState.grid,
-      row,
-      col,
-      false,
-    );
-
-    // Get the clue numbers for both starting cells
+    // Get the clue numbers of the horizontal and vertical words
     const horizontalClueNumber =
-      clueNumbers[horizontalStartRow][horizontalStartCol];
-    const verticalClueNumber = clueNumbers[verticalStartRow][verticalStartCol];
+      findClueNumberForCell(row, col, "across", grid, clueNumbers, walls) ?? 0;
+    const verticalClueNumber =
+      findClueNumberForCell(row, col, "down", grid, clueNumbers, walls) ?? 0;
 
     // Set the active cell to the clicked cell
     let newOrientation = crosswordState.clueOrientation;
@@ -188,6 +208,7 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
       activeCell: [row, col] as [number, number],
       clueOrientation: newOrientation,
       activeClueNumber: newClueNumber,
+      rebusEntry: null,
     });
   };
 
@@ -209,32 +230,57 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
     setCrosswordState(newState);
   };
 
-  // Helper function to find the start of a word
-  const findWordStart = (
-    grid: boolean[][],
-    row: number,
-    col: number,
-    isHorizontal: boolean,
-  ): [number, number] => {
-    if (isHorizontal) {
-      // For horizontal words, move left until we hit a black cell or the edge
-      while (col > 0 && !grid[row][col - 1]) {
-        col--;
+  const handleKeyDown = (e: React.KeyboardEvent, row: number, col: number) => {
+    if (disabled) return;
+
+    /**
+     * REBUS MODE
+     *
+     * Escape or Insert starts a multi-letter entry for the cell. While it is
+     * open, typed characters are appended to the draft and Enter (or Escape /
+     * Insert again) commits it; other keys are ignored.
+     */
+    if (rebusEntry != null) {
+      e.preventDefault();
+      if (["Enter", "Escape", "Insert"].includes(e.key)) {
+        commitRebusEntry();
+      } else if (e.key === "Backspace" || e.key === "Delete") {
+        setCrosswordState({
+          ...crosswordState,
+          rebusEntry: rebusEntry.slice(0, -1),
+        });
+      } else if (e.key.length === 1 && CELL_CHARACTER.test(e.key)) {
+        setCrosswordState({
+          ...crosswordState,
+          rebusEntry: rebusEntry + e.key.toUpperCase(),
+        });
       }
-    } else {
-      // For vertical words, move up until we hit a black cell or the edge
-      while (row > 0 && !grid[row - 1][col]) {
-        row--;
+      return;
+    }
+    if (e.key === "Escape" || e.key === "Insert") {
+      e.preventDefault();
+      toggleRebusEntry();
+      return;
+    }
+    // Ctrl/Cmd+Z undoes the last edit, Shift+Ctrl/Cmd+Z redoes it
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "z") {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onRedo?.();
+      } else {
+        onUndo?.();
       }
+      return;
+    }
+    // Backquote switches between pen and pencil
+    if (e.key === "`") {
+      e.preventDefault();
+      togglePencilMode();
+      return;
     }
-    return [row, col];
-  };
-
-  const handleKeyDown = (e: React.KeyboardEvent, row: number, col: number) => {
-    if (disabled) return;
 
     // Handle letter, number, and symbol input
-    if (e.key.length === 1 && /^[a-zA-Z0-9\-/:;()$&@".,?!']$/.test(e.key)) {
+    if (e.key.length === 1 && CELL_CHARACTER.test(e.key)) {
       e.preventDefault();
       handleLetterChange(row, col, e.key.toUpperCase());
     } else if (e.key === "Backspace" || e.key === "Delete") {
@@ -290,6 +336,7 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
             "across",
             grid,
             clueNumbers,
+            walls,
           );
 
           if (clueNumber) {
@@ -330,6 +377,7 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
             "down",
             grid,
             clueNumbers,
+            walls,
           );
 
           if (clueNumber) {
@@ -346,7 +394,7 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
   };
 
   // Calculate clue numbers only once
-  const clueNumbers = calculateClueNumbers(grid, rows, columns);
+  const clueNumbers = getClueNumbers(crosswordState);
 
   // Handle touch events for mobile
   const startTouchRef = useRef<{ x: number; y: number } | null>(null);
@@ -401,11 +449,31 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
   const getCellClass = (row: number, col: number): string => {
     let className = "crossword-cell";
 
+    // Voids are omitted cells and are not drawn at all
+    if (voids && voids[row][col]) {
+      return className + " void-cell";
+    }
+
     // Add black cell class if the cell is black
     if (grid[row][col]) {
       return className + " black-cell";
     }
 
+    // Bars on the right and bottom edges of the cell (barred grids)
+    if (walls?.right[row]?.[col]) className += " bar-right";
+    if (walls?.bottom[row]?.[col]) className += " bar-bottom";
+
+    // Letters pre-filled by the puzzle are read-only
+    if (givens?.[row]?.[col]) className += " given-cell";
+    if (revealed?.[row]?.[col]) className += " revealed-cell";
+    if (pencilled?.[row]?.[col]) className += " pencil-cell";
+
+    // Puzzle-defined highlights and colors sit beneath the solver's highlights
+    const cellStyle = cellStyles?.[row][col];
+    if (cellStyle?.highlight) className += " highlighted-cell";
+    if (cellStyle?.backgroundColor) className += " has-color";
+    if (cellStyle?.textColor) className += " has-text-color";
+
     // Add active cell class if this is the active cell
     if (activeCell && activeCell[0] === row && activeCell[1] === col) {
       className += " active-cell";
@@ -422,6 +490,7 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
         clueNumbers,
         rows,
         columns,
+        walls,
       )
     ) {
       className += " part-of-active-clue";
@@ -451,7 +520,7 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
       return;
     }
 
-    if (gridRef.current) {
+    if (autoFocus && gridRef.current) {
       // Use requestAnimationFrame to ensure this runs after the grid is fully rendered
       requestAnimationFrame(() => {
         const [row, col] = activeCell;
@@ -466,7 +535,7 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
         }
       });
     }
-  }, [activeCell, grid]);
+  }, [activeCell, grid, autoFocus]);
 
   // Add effect to prevent viewport scaling on input
   useEffect(() => {
@@ -523,6 +592,27 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
 
   // Function to handle cell click is now defined earlier in the component
 
+  // Other participants' words, with their cursor cells drawn on top
+  const participantCells = new Map<
+    string,
+    { color: string; isCursor: boolean }
+  >();
+  participants.forEach(({ color, activeCell: cell, clueOrientation }) => {
+    if (!cell) return;
+    getCellsInScope(
+      { ...crosswordState, activeCell: cell, clueOrientation },
+      "word",
+    ).forEach(([row, col]) => {
+      if (!participantCells.get(`${row}-${col}`)?.isCursor) {
+        participantCells.set(`${row}-${col}`, { color, isCursor: false });
+      }
+    });
+  });
+  participants.forEach(({ color, activeCell: cell }) => {
+    if (cell)
+      participantCells.set(`${cell[0]}-${cell[1]}`, { color, isCursor: true });
+  });
+
   return (
     <div className="crossword-wrapper" ref={wrapperRef}>
       <div
@@ -535,7 +625,7 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
         }}
       >
         <div
-          className="grid-container"
+          className={`grid-container ${hasVoids ? "has-voids" : ""} ${crosswordState.pencilMode ? "pencil-mode" : ""}`}
           style={{
             gridTemplateColumns: `repeat(${columns}, ${cellSize}px)`,
             gridTemplateRows: `repeat(${rows}, ${cellSize}px)`,
@@ -546,12 +636,46 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
               const cellClass = getCellClass(row, col);
               const letter = letters[row][col];
               const number = clueNumbers[row][col];
+              const label =
+                cellLabels?.[row][col] ?? (number > 0 ? String(number) : null);
+              const cellStyle = cellStyles?.[row][col] ?? null;
+              const isRebusCell =
+                rebusEntry != null &&
+                !!activeCell &&
+                activeCell[0] === row &&
+                activeCell[1] === col;
+              const entry = isRebusCell ? rebusEntry : letter;
+              const participantCell = participantCells.get(`${row}-${col}`);
+              const participantClass = participantCell
+                ? participantCell.isCursor
+                  ? " participant-cursor"
+                  : " participant-word"
+                : "";
+              const entryFontSize = getEntryFontSize(entry, cellSize);
+
+              if (voids && voids[row][col]) {
+                return (
+                  <div
+                    key={`${row}-${col}`}
+                    className={cellClass}
+                    style={{ width: cellSize, height: cellSize }}
+                    aria-hidden={true}
+                  />
+                );
+              }
 
               return (
                 <div
                   key={`${row}-${col}`}
-                  className={cellClass}
-                  style={{ width: cellSize, height: cellSize }}
+                  className={`${cellClass}${participantClass}${isRebusCell ? " rebus-entry" : ""}`}
+                  style={{
+                    width: cellSize,
+                    height: cellSize,
+                    fontSize: entryFontSize,
+                    ["--cell-color" as string]: cellStyle?.backgroundColor,
+                    ["--cell-text-color" as string]: cellStyle?.textColor,
+                    ["--participant-color" as string]: participantCell?.color,
+                  }}
                   onClick={(e) => {
                     if (ignoreNextClickRef.current) {
                       ignoreNextClickRef.current = false;
@@ -567,13 +691,34 @@ const CrosswordGrid: React.FC<CrosswordGridProps> = ({
                   onKeyDown={(e) => handleKeyDown(e, row, col)}
                   data-row={row}
                   data-col={col}
-                  aria-readonly={false}
+                  aria-readonly={
+                    !!givens?.[row]?.[col] || !!revealed?.[row]?.[col]
+                  }
                   aria-label={`crossword cell ${row},${col}`}
                 >
-                  {!grid[row][col] && number > 0 && (
-                    <span className="cell-number">{number}</span>
+                  {cellStyle?.shape && (
+                    <span
+                      className={`cell-shape cell-shape-${cellStyle.shape}`}
+                    />
+                  )}
+                  {cellStyle?.divided && (
+                    <span
+                      className={`cell-divider cell-divider-${cellStyle.divided}`}
+                    />
+                  )}
+                  {!grid[row][col] && label && (
+                    <span className="cell-number">{label}</span>
                   )}
-                  {letter}
+                  {cellStyle?.marks &&
+                    Object.entries(cellStyle.marks).map(([position, text]) => (
+                      <span
+                        key={position}
+                        className={`cell-mark cell-mark-${position}`}
+                      >
+                        {text}
+                      </span>
+                    ))}
+                  {entry}
                 </div>
               );
             }),
@@ -0,0 +1,191 @@
+import React, { useEffect, useMemo, useState } from "react";
+import CrosswordGrid from "./CrosswordGrid";
+import "../styles/CrosswordReplay.css";
+import { IPuzPuzzle } from "../types/ipuz";
+import { loadIpuzPuzzle } from "../loader";
+import {
+  SolveRecording,
+  getRecordingDuration,
+  getReplayStateAt,
+  parseRecording,
+} from "../replay";
+import { CrosswordTheme } from "../theme";
+import { useCrosswordTheme } from "../hooks/useCrosswordTheme";
+
+interface CrosswordReplayProps {
+  /** The puzzle that was solved, in IPuz format */
+  ipuzData: IPuzPuzzle;
+  /** The solver's recording, from `getRecording()`, or its JSON */
+  recording: SolveRecording | string;
+  /** Start playing as soon as the replay is shown */
+  autoPlay?: boolean;
+  /** Playback speeds to offer; the first is the default */
+  speeds?: number[];
+  /** Colors and fonts, as for `CrosswordSolver`. Defaults to "light" */
+  theme?: CrosswordTheme;
+}
+
+const DEFAULT_SPEEDS = [1, 2, 4, 8];
+
+const formatTime = (ms: number): string => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, "0")}`;
+};
+
+/**
+ * Plays a recorded solve back on a read-only grid, with play/pause, seeking
+ * and speed controls.
+ */
+const CrosswordReplay: React.FC<CrosswordReplayProps> = ({
+  ipuzData,
+  recording,
+  autoPlay = false,
+  speeds = DEFAULT_SPEEDS,
+  theme = "light",
+}) => {
+  const { isDarkMode, style } = useCrosswordTheme({ theme, persist: false });
+  const initialState = useMemo(
+    () => loadIpuzPuzzle(ipuzData).state,
+    [ipuzData],
+  );
+  const parsedRecording = useMemo(() => {
+    const parsed =
+      typeof recording === "string" ? parseRecording(recording) : recording;
+    // A recording of a different grid can't be played on this one
+    return parsed &&
+      parsed.rows === initialState.rows &&
+      parsed.columns === initialState.columns
+      ? parsed
+      : null;
+  }, [recording, initialState]);
+  const duration = parsedRecording ? getRecordingDuration(parsedRecording) : 0;
+
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(autoPlay);
+  const [speed, setSpeed] = useState(speeds[0] ?? 1);
+
+  // A new recording starts from the beginning
+  useEffect(() => {
+    setPosition(0);
+  }, [parsedRecording]);
+
+  // Move the playhead along while playing
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    let lastFrame = performance.now();
+    let frame = requestAnimationFrame(function tick(now: number) {
+      const delta = (now - lastFrame) * speed;
+      lastFrame = now;
+      setPosition((prev) => Math.min(duration, prev + delta));
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, speed, duration]);
+
+  // Stop at the end
+  useEffect(() => {
+    if (isPlaying && position >= duration) {
+      setIsPlaying(false);
+    }
+  }, [isPlaying, position, duration]);
+
+  const replayState = useMemo(
+    () =>
+      parsedRecording
+        ? getReplayStateAt(initialState, parsedRecording, position)
+        : initialState,
+    [initialState, parsedRecording, position],
+  );
+
+  const togglePlaying = () => {
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+    // Playing from the end starts over
+    if (position >= duration) setPosition(0);
+    setIsPlaying(true);
+  };
+
+  return (
+    <div
+      className={`crossword-replay solver-container ${isDarkMode ? "dark-mode" : ""}`}
+      style={style}
+    >
+      <div className="replay-grid-container">
+        <CrosswordGrid
+          crosswordState={replayState}
+          setCrosswordState={() => {}}
+          disabled
+          // Playback moves the cursor; focus stays with the controls
+          autoFocus={false}
+        />
+      </div>
+
+      {parsedRecording ? (
+        <div className="replay-controls">
+          <button
+            className="replay-play"
+            onClick={togglePlaying}
+            aria-label={isPlaying ? "Pause replay" : "Play replay"}
+          >
+            {isPlaying ? (
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="currentColor"
+              >
+                <rect x="6" y="4" width="4" height="16"></rect>
+                <rect x="14" y="4" width="4" height="16"></rect>
+              </svg>
+            ) : (
+              <svg
+                xmlns="http://www.w3.org/2000/svg"
+                width="16"
+                height="16"
+                viewBox="0 0 24 24"
+                fill="currentColor"
+              >
+                <polygon points="6 4 20 12 6 20 6 4"></polygon>
+              </svg>
+            )}
+          </button>
+          <input
+            className="replay-seek"
+            type="range"
+            min={0}
+            max={duration}
+            step={100}
+            value={position}
+            onChange={(e) => setPosition(Number(e.target.value))}
+            aria-label="Seek"
+          />
+          <span className="replay-time">
+            {formatTime(position)} / {formatTime(duration)}
+          </span>
+          <div className="replay-speeds">
+            {speeds.map((option) => (
+              <button
+                key={option}
+                className={`replay-speed ${option === speed ? "active" : ""}`}
+                onClick={() => setSpeed(option)}
+                aria-pressed={option === speed}
+              >
+                {option}×
+              </button>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <div className="replay-error">
+          This recording doesn&apos;t match this puzzle.
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CrosswordReplay;
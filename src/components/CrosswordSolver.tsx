@@ -1,29 +1,97 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, {
+  forwardRef,
+  useState,
+  useEffect,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+} from "react";
 import CrosswordGrid from "./CrosswordGrid";
-import { CrosswordState } from "../types/crossword";
+import {
+  CompletionDetails,
+  CellCheckResult,
+  CrosswordProgress,
+  PauseReason,
+  SolveStats,
+  SolverEventInfo,
+  TimerInterval,
+  TimerStart,
+} from "../types/crossword";
 import { IPuzPuzzle } from "../types/ipuz";
 import Modal from "./Modal";
 import "../styles/CrosswordSolver.css";
 import VirtualKeyboard from "./VirtualKeyboard";
 import Toast from "./Toast";
 import {
-  calculateClueNumbers,
-  findFirstValidCell,
+  getClueNumbers,
   findClueStartCell,
   findFirstEmptyCellInClue,
   navigateToClueAndCell,
   findWordStart,
+  findClueNumberForCell,
+  hasWallAfter,
+  CellScope,
+  ClearScope,
+  getCellsInScope,
+  getGridProgress,
+  revealCells,
+  countRevealedCells,
+  getIncorrectCells,
+  clearCells,
+  isPuzzleComplete,
+  areAllAnswersCorrect,
+  closeLedgerInterval,
+  getClueSolveSeconds,
+  getCluesForCells,
+  getLedgerElapsedMs,
+  isLedgerRunning,
+  openLedgerInterval,
 } from "../utils";
+import { IpuzValidationResult, validateIpuz } from "../validation";
+import { ClueNumberingSource, loadIpuzPuzzle } from "../loader";
+import {
+  StorageAdapter,
+  applySavedProgress,
+  createLocalStorageAdapter,
+  createSavedProgress,
+  getProgressKey,
+  parseSavedProgress,
+} from "../storage";
+import { useCrosswordHistory } from "../hooks/useCrosswordHistory";
+import {
+  CrosswordEventCallbacks,
+  useCrosswordEvents,
+} from "../hooks/useCrosswordEvents";
+import {
+  CollaborationOptions,
+  useCrosswordCollaboration,
+} from "../hooks/useCrosswordCollaboration";
+import { useSolveStats } from "../hooks/useSolveStats";
+import { useSolveRecording } from "../hooks/useSolveRecording";
+import { SolveRecording } from "../replay";
+import { useCrosswordTheme } from "../hooks/useCrosswordTheme";
+import { CrosswordTheme } from "../theme";
+import {
+  ControlledCrosswordProps,
+  useControlledCrosswordState,
+} from "../hooks/useControlledCrosswordState";
 
-interface CrosswordSolverProps {
+interface CrosswordSolverProps
+  extends ControlledCrosswordProps,
+    CrosswordEventCallbacks {
   /** The puzzle data in IPuz format */
   ipuzData: IPuzPuzzle;
   /**
    * Optional callback function that will be called when the puzzle is completed.
    * This fires when the puzzle is solved and the success modal is about to be shown.
-   * The callback receives the completion time in seconds and the completed grid.
+   * The callback receives the completion time in seconds, the completed grid, and
+   * details about the solve such as whether any answers were revealed.
    */
-  onComplete?: (completionTime: number, grid: (string | null)[][]) => void;
+  onComplete?: (
+    completionTime: number,
+    grid: (string | null)[][],
+    details: CompletionDetails,
+  ) => void;
   /**
    * Optional React elements to display in the left side of the actions bar.
    * These elements will be displayed opposite the timer and actions buttons.
@@ -31,10 +99,15 @@ interface CrosswordSolverProps {
   leftNavElements?: React.ReactNode;
   /**
    * Optional callback function that will be called when the user starts the puzzle (dismisses the splash modal).
-   * Can optionally return a timestamp string (e.g., from SQLite's CURRENT_TIMESTAMP) to be used as the timer start time.
-   * If no timestamp is returned, the timer will start from when the callback completes.
+   * Can optionally return a timestamp string (e.g., from SQLite's CURRENT_TIMESTAMP) to be used as the timer start time,
+   * or a `TimerStart` with the active time already spent to resume from.
+   * If neither is returned, the timer will start from `initialElapsedSeconds` when the callback completes.
    */
-  onStart?: () => void | string | Promise<void | string>;
+  onStart?: () =>
+    | void
+    | string
+    | TimerStart
+    | Promise<void | string | TimerStart>;
   /**
    * If true, the puzzle is shown as completed and locked (no further editing, timer stopped, and success modal shown).
    */
@@ -49,48 +122,254 @@ interface CrosswordSolverProps {
    * The description to display in the splash modal.
    */
   splashDescription?: string | React.ReactNode;
+
+  /**
+   * Optional callback function that will be called when the puzzle data cannot be loaded.
+   * Receives the validation result, including errors and warnings with JSON paths.
+   */
+  onLoadError?: (result: IpuzValidationResult) => void;
+
+  /**
+   * Where clue numbers come from. "auto" (the default) uses the numbers and labels
+   * declared in the puzzle grid when present and computes them from the blocks otherwise.
+   */
+  numbering?: ClueNumberingSource;
+
+  /**
+   * Identifies the puzzle for saving progress. When set, letters, check marks,
+   * cursor and elapsed time are saved as the user solves and restored on the next load.
+   */
+  puzzleId?: string;
+
+  /**
+   * Where progress is saved. Defaults to localStorage.
+   */
+  storage?: StorageAdapter;
+
+  /**
+   * Active solving time, in seconds, that the timer starts from, e.g. when a user
+   * comes back to a puzzle they began earlier. Defaults to 0.
+   */
+  initialElapsedSeconds?: number;
+
+  /**
+   * Optional callback function that will be called whenever the elapsed solving time
+   * changes by a second, and when the timer pauses, resumes or is restored.
+   */
+  onElapsedChange?: (elapsedSeconds: number) => void;
+
+  /**
+   * Turns on countdown mode: the timer counts down from this many seconds and the
+   * grid locks when it reaches zero.
+   */
+  timeLimitSeconds?: number;
+
+  /**
+   * Optional callback function that will be called when the time limit runs out, with
+   * the partially filled grid (empty and blocked cells are null) and the elapsed seconds.
+   */
+  onTimeUp?: (grid: (string | null)[][], elapsedSeconds: number) => void;
+
+  /**
+   * Turns on collaborative solving: letters and cursors are shared with everyone
+   * connected through the same transport.
+   */
+  collaboration?: CollaborationOptions;
+
+  /**
+   * Colors and fonts: "light", "dark", "system" to follow the operating system, or
+   * tokens overriding the built-in palette. When set, the Dark Mode setting is hidden.
+   */
+  theme?: CrosswordTheme;
+
+  /**
+   * Whether the Dark Mode and Autocheck settings are remembered in localStorage.
+   * Defaults to true.
+   */
+  persistSettings?: boolean;
+
+  /**
+   * Seconds without keyboard, mouse or touch input before the timer pauses itself.
+   * Defaults to 300; 0 turns inactivity pausing off.
+   */
+  autoPauseAfter?: number;
+
+  /**
+   * Optional callback function that will be called when the timer pauses, with the
+   * elapsed solving time in seconds and whether the user, a hidden tab or inactivity paused it.
+   */
+  onPause?: (elapsedSeconds: number, reason: PauseReason) => void;
+
+  /**
+   * Optional callback function that will be called when a paused timer resumes.
+   */
+  onResume?: (elapsedSeconds: number) => void;
 }
 
-const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
-  ipuzData,
-  onComplete,
-  leftNavElements,
-  onStart,
-  isComplete,
-  splashTitle,
-  splashDescription,
-}) => {
-  // Initialize dark mode from localStorage (defaults to true)
-  const [isDarkMode, setIsDarkMode] = useState<boolean>(() => {
-    const stored = localStorage.getItem("xword-dark-mode");
-    if (stored !== null) {
-      return stored === "true";
-    }
-    return true; // Default to dark mode
-  });
+/**
+ * Methods available through a ref on `CrosswordSolver`, for host apps that
+ * drive the solver from their own toolbar.
+ */
+export interface CrosswordSolverHandle {
+  /** Checks the active word, like the Check Answer action */
+  checkWord: () => void;
+  /** Checks every filled cell, like the Check Puzzle action */
+  checkPuzzle: () => void;
+  /** Reveals the active cell, the active word or the whole puzzle */
+  reveal: (scope: CellScope) => void;
+  /** Clears the active word, the incorrect cells or the whole puzzle, without confirmation */
+  clear: (scope: ClearScope) => void;
+  /** Makes a clue active and moves the cursor to its first empty cell */
+  focusClue: (clueNumber: number, orientation: "across" | "down") => void;
+  /** Reports filled and correct cells, elapsed time and completion */
+  getProgress: () => CrosswordProgress;
+  /** Reports per-clue timing, checks and erasures so far */
+  getStats: () => SolveStats;
+  /** Returns the log of cell changes and cursor moves so far, for `CrosswordReplay` */
+  getRecording: () => SolveRecording | null;
+  /** Stops the timer and covers the grid; the elapsed time is kept */
+  pauseTimer: () => void;
+  /** Restarts a paused timer from where it stopped */
+  resumeTimer: () => void;
+}
+
+// Countdown mode warns when this little time is left
+const TIME_WARNING_SECONDS = 60;
+
+const CrosswordSolverComponent: React.ForwardRefRenderFunction<
+  CrosswordSolverHandle,
+  CrosswordSolverProps
+> = (
+  {
+    ipuzData,
+    onComplete,
+    leftNavElements,
+    onStart,
+    isComplete,
+    splashTitle,
+    splashDescription,
+    onLoadError,
+    numbering = "auto",
+    puzzleId,
+    storage,
+    initialElapsedSeconds = 0,
+    onElapsedChange,
+    timeLimitSeconds,
+    onTimeUp,
+    collaboration,
+    theme,
+    persistSettings = true,
+    autoPauseAfter = 300,
+    onPause,
+    onResume,
+    letters,
+    onLettersChange,
+    activeCell,
+    onActiveCellChange,
+    validatedCells: controlledValidatedCells,
+    onValidatedCellsChange,
+    onCellChange,
+    onActiveClueChange,
+    onCheck,
+    onReveal,
+    onError,
+  },
+  ref,
+) => {
+  // Light or dark palette, plus any custom theme tokens
+  const {
+    isDarkMode,
+    canToggleDarkMode,
+    toggleDarkMode,
+    style: themeStyle,
+  } = useCrosswordTheme({ theme, persist: persistSettings });
+
+  // Initialize autocheck from localStorage (defaults to false)
+  const [isAutocheck, setIsAutocheck] = useState<boolean>(
+    () => persistSettings && localStorage.getItem("xword-autocheck") === "true",
+  );
 
   const [solution, setSolution] = useState<string[][] | null>(null);
-  const [validatedCells, setValidatedCells] = useState<
-    (boolean | undefined)[][] | null
-  >(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showErrorToast, setShowErrorToast] = useState(false);
   const [showSplashModal, setShowSplashModal] = useState(true);
   const [showInfoModal, setShowInfoModal] = useState(false);
   const [showSettingsModal, setShowSettingsModal] = useState(false);
+  const [showClearPuzzleModal, setShowClearPuzzleModal] = useState(false);
   const [showConfetti, setShowConfetti] = useState(false);
+  // Statistics for the post-solve modal
+  const [completionStats, setCompletionStats] = useState<SolveStats | null>(
+    null,
+  );
   const [hasCompleted, setHasCompleted] = useState(false);
   const [isActionsMenuOpen, setIsActionsMenuOpen] = useState(false);
   const [useMobileKeyboard, setUseMobileKeyboard] = useState(false);
-  const [crosswordState, setCrosswordState] = useState<CrosswordState | null>(
-    null,
-  );
+  // Letters, cursor and check marks may be owned by the host app
+  const {
+    crosswordState,
+    setCrosswordState: setCrosswordStateSilently,
+    validatedCells,
+    setValidatedCells,
+  } = useControlledCrosswordState({
+    letters,
+    onLettersChange,
+    activeCell,
+    onActiveCellChange,
+    validatedCells: controlledValidatedCells,
+    onValidatedCellsChange,
+  });
   const [isTimerRunning, setIsTimerRunning] = useState<boolean>(false);
-  const startTimeRef = useRef<number | null>(null);
+  const [isPaused, setIsPaused] = useState(false);
+  const [isTimeUp, setIsTimeUp] = useState(false);
+  const [showTimeUpModal, setShowTimeUpModal] = useState(false);
+  // Active solving intervals; paused time falls between them
+  const timeLedgerRef = useRef<TimerInterval[]>([]);
   const timerIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const [, setTimerTick] = useState(0); // Just to force re-renders
 
+  // Calculate current timer value from the active intervals
+  const getElapsedSeconds = (): number =>
+    timeLedgerRef.current.length === 0
+      ? initialElapsedSeconds
+      : Math.floor(getLedgerElapsedMs(timeLedgerRef.current) / 1000);
+
+  // Every event callback gets the time it happened and the solve time so far
+  const getEventInfo = (): SolverEventInfo => ({
+    timestamp: Date.now(),
+    elapsedSeconds: getElapsedSeconds(),
+  });
+
+  // The local user's edits go through this setter, which reports them to
+  // onCellChange and onActiveClueChange; loading a puzzle and other
+  // participants' edits use setCrosswordStateSilently
+  const { setCrosswordState } = useCrosswordEvents({
+    setCrosswordState: setCrosswordStateSilently,
+    getEventInfo,
+    onCellChange,
+    onActiveClueChange,
+  });
+
+  // Undo/redo for every edit to the grid, wherever it comes from
+  const { undo, redo, canUndo, canRedo } = useCrosswordHistory({
+    crosswordState,
+    setCrosswordState,
+    validatedCells,
+    setValidatedCells,
+  });
+
+  // Shared solving: send our edits and cursor, merge everyone else's
+  const { participants } = useCrosswordCollaboration({
+    crosswordState,
+    setCrosswordState: setCrosswordStateSilently,
+    collaboration,
+  });
+
+  const storageAdapter = useMemo(
+    () => storage ?? createLocalStorageAdapter(),
+    [storage],
+  );
+
   // Refs for clue list containers
   const acrossClueListRef = useRef<HTMLDivElement>(null);
   const downClueListRef = useRef<HTMLDivElement>(null);
@@ -98,14 +377,16 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
   const actionsToggleRef = useRef<HTMLButtonElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // Persist dark mode preference to localStorage
+  // Persist autocheck preference to localStorage
   useEffect(() => {
-    localStorage.setItem("xword-dark-mode", String(isDarkMode));
-  }, [isDarkMode]);
+    if (persistSettings) {
+      localStorage.setItem("xword-autocheck", String(isAutocheck));
+    }
+  }, [persistSettings, isAutocheck]);
 
-  // Toggle dark mode handler
-  const toggleDarkMode = () => {
-    setIsDarkMode((prev) => !prev);
+  // Toggle autocheck handler
+  const toggleAutocheck = () => {
+    setIsAutocheck((prev) => !prev);
   };
 
   // Add click outside handler
@@ -166,11 +447,124 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
     };
   }, [isTimerRunning]);
 
-  // Calculate current timer value based on start time
-  const getElapsedSeconds = (): number => {
-    if (!startTimeRef.current) return 0;
-    return Math.floor((Date.now() - startTimeRef.current) / 1000);
+  const isLocked = hasCompleted || isComplete || isTimeUp;
+
+  const { getStats, recordChecks } = useSolveStats({
+    crosswordState,
+    getElapsedSeconds,
+  });
+
+  const { getRecording } = useSolveRecording({
+    crosswordState,
+    getElapsedMs: () => getLedgerElapsedMs(timeLedgerRef.current),
+  });
+
+  // A filled grid was wrong: show the toast and report it
+  const showError = () => {
+    setShowErrorToast(true);
+    onError?.(getEventInfo());
+  };
+
+  // In countdown mode the timer shows the time left
+  const getDisplayedSeconds = (): number =>
+    timeLimitSeconds
+      ? Math.max(0, timeLimitSeconds - getElapsedSeconds())
+      : getElapsedSeconds();
+  const isTimeRunningOut =
+    !!timeLimitSeconds &&
+    !isLocked &&
+    getDisplayedSeconds() <=
+      Math.min(TIME_WARNING_SECONDS, timeLimitSeconds / 4);
+
+  // Countdown mode: the limit ran out, so lock the grid and report the partial fill
+  useEffect(() => {
+    if (!timeLimitSeconds || !isTimerRunning || isTimeUp || !crosswordState) {
+      return;
+    }
+    if (getElapsedSeconds() < timeLimitSeconds) return;
+
+    timeLedgerRef.current = closeLedgerInterval(timeLedgerRef.current);
+    setIsTimerRunning(false);
+    setIsTimeUp(true);
+    setShowTimeUpModal(true);
+    setCrosswordState({ ...crosswordState, rebusEntry: null });
+    onTimeUp?.(
+      crosswordState.letters.map((row) =>
+        row.map((cell) => (cell === "" ? null : cell)),
+      ),
+      getElapsedSeconds(),
+    );
+  });
+
+  // Report each new whole second once the timer has started
+  const lastReportedElapsedRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!onElapsedChange || timeLedgerRef.current.length === 0) return;
+    const elapsed = getElapsedSeconds();
+    if (elapsed === lastReportedElapsedRef.current) return;
+    lastReportedElapsedRef.current = elapsed;
+    onElapsedChange(elapsed);
+  });
+
+  // Stop the timer without losing the elapsed time
+  const pauseTimer = (reason: PauseReason = "user") => {
+    if (!isLedgerRunning(timeLedgerRef.current)) return;
+    timeLedgerRef.current = closeLedgerInterval(timeLedgerRef.current);
+    setIsTimerRunning(false);
+    setIsPaused(true);
+    onPause?.(getElapsedSeconds(), reason);
+  };
+
+  // Restart a paused timer in a new interval
+  const resumeTimer = () => {
+    if (!isPaused || hasCompleted) return;
+    timeLedgerRef.current = openLedgerInterval(timeLedgerRef.current);
+    setIsPaused(false);
+    setIsTimerRunning(true);
+    onResume?.(getElapsedSeconds());
   };
+  const pauseTimerRef = useRef(pauseTimer);
+  pauseTimerRef.current = pauseTimer;
+
+  // Pause when the tab is hidden
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        pauseTimerRef.current("hidden");
+      }
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, []);
+
+  // Pause after a stretch without any input
+  useEffect(() => {
+    if (!isTimerRunning || !autoPauseAfter) return;
+
+    const activityEvents = ["keydown", "pointerdown", "touchstart"];
+    let timeout = setTimeout(
+      () => pauseTimerRef.current("inactive"),
+      autoPauseAfter * 1000,
+    );
+    const handleActivity = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(
+        () => pauseTimerRef.current("inactive"),
+        autoPauseAfter * 1000,
+      );
+    };
+    activityEvents.forEach((event) =>
+      window.addEventListener(event, handleActivity),
+    );
+    return () => {
+      clearTimeout(timeout);
+      activityEvents.forEach((event) =>
+        window.removeEventListener(event, handleActivity),
+      );
+    };
+  }, [isTimerRunning, autoPauseAfter]);
 
   // Format time as M:SS
   const formatTime = (seconds: number): string => {
@@ -184,94 +578,82 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
     const loadPuzzle = async () => {
       try {
         setLoading(true);
-        const { dimensions, puzzle, solution: ipuzSolution, clues } = ipuzData;
-        const { width, height } = dimensions;
-
-        // Convert puzzle grid to boolean array
-        const grid = puzzle.map((row) =>
-          row.map((cell) => {
-            // Black squares are represented by '#'
-            if (cell === "#") {
-              return true;
-            }
-            // Everything else (including 0, null, and cells with numbers) is a white square
-            return false;
-          }),
+
+        // Reject malformed data before building any state from it
+        const validation = validateIpuz(ipuzData);
+        if (!validation.valid) {
+          setError(validation.errors[0].message);
+          setLoading(false);
+          onLoadError?.(validation);
+          return;
+        }
+
+        // Convert the ipuz grid (blocks, voids, solution, clues) into solver state
+        const {
+          state: initialState,
+          solution: solutionArray,
+          numbering: resolvedNumbering,
+        } = loadIpuzPuzzle(ipuzData, { numbering });
+
+        // Custom numbering is honored, but disagreements usually mean a broken file
+        resolvedNumbering.mismatches.forEach(
+          ({ row, col, declared, computed }) => {
+            console.warn(
+              `Clue numbering mismatch at [${row}, ${col}]: puzzle declares ${declared || "none"}, grid layout implies ${computed || "none"}`,
+            );
+          },
         );
 
-        // Process the solution data
-        let solutionArray: string[][] | null = null;
-        if (ipuzSolution) {
-          solutionArray = Array(height)
-            .fill(0)
-            .map(() => Array(width).fill(""));
-
-          // Process the solution data
-          for (let row = 0; row < height; row++) {
-            for (let col = 0; col < width; col++) {
-              const cell = ipuzSolution[row][col];
-              if (cell && cell !== "#" && cell !== null) {
-                solutionArray[row][col] = cell;
-              }
+        // Pick up saved progress for this puzzle, if any
+        let savedProgress = null;
+        if (puzzleId) {
+          const key = getProgressKey(puzzleId);
+          try {
+            const stored = await storageAdapter.get(key);
+            savedProgress = parseSavedProgress(stored, initialState);
+            if (stored && !savedProgress) {
+              // Unreadable or saved for a different grid
+              await storageAdapter.remove(key);
             }
+          } catch (error) {
+            console.warn("Could not restore saved progress:", error);
           }
-        } else {
-          // If no solution is provided, create an empty solution array
-          solutionArray = Array(height)
-            .fill(0)
-            .map(() => Array(width).fill(""));
         }
 
         // Set the solution
         setSolution(solutionArray);
 
         // Initialize validated cells array
-        const validatedCellsArray = Array(height)
+        const validatedCellsArray = Array(initialState.rows)
           .fill(0)
-          .map(() => Array(width).fill(undefined));
-        setValidatedCells(validatedCellsArray);
-
-        // Find the first valid cell (used for initializing crosswordState)
-        const firstCell = findFirstValidCell(grid);
-
-        // Process clues
-        const processedClues = {
-          Across: {} as { [key: number]: string },
-          Down: {} as { [key: number]: string },
-        };
-
-        if (clues && clues.Across) {
-          clues.Across.forEach(([number, clue]) => {
-            processedClues.Across[number] = clue;
-          });
-        }
-
-        if (clues && clues.Down) {
-          clues.Down.forEach(([number, clue]) => {
-            processedClues.Down[number] = clue;
-          });
-        }
-
-        // Initialize the crossword state
-        const initialState: CrosswordState = {
-          rows: height,
-          columns: width,
-          grid,
-          letters: Array(height)
-            .fill(0)
-            .map(() => Array(width).fill("")),
-          validatedCells: null,
-          clueOrientation: "across",
-          activeClueNumber: clues.Across[0]?.[0] ?? 1,
-          activeCell: firstCell,
-          clues: processedClues,
-          clueText: "",
-        };
+          .map(() => Array(initialState.columns).fill(undefined));
+        setValidatedCells(savedProgress?.validatedCells ?? validatedCellsArray);
 
         // Set the state once with all the data
-        setCrosswordState(initialState);
+        setCrosswordStateSilently(
+          savedProgress
+            ? applySavedProgress(initialState, savedProgress)
+            : initialState,
+        );
         setLoading(false);
 
+        // Resume a saved solve straight away, without the splash modal
+        if (savedProgress) {
+          setShowSplashModal(false);
+          const now = Date.now();
+          timeLedgerRef.current = [
+            {
+              start: now - savedProgress.elapsedSeconds * 1000,
+              end: savedProgress.completed ? now : null,
+            },
+          ];
+          if (savedProgress.completed) {
+            setHasCompleted(true);
+          } else {
+            setIsTimerRunning(true);
+          }
+        }
+
         // Use requestAnimationFrame to ensure this runs after the grid is fully rendered
         requestAnimationFrame(() => {
           if (initialState.activeCell) {
@@ -289,13 +671,60 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
         });
       } catch (error) {
         console.error("Error loading puzzle:", error);
-        setError(error instanceof Error ? error.message : "Unknown error");
+        const message =
+          error instanceof Error ? error.message : "Unknown error";
+        setError(message);
         setLoading(false);
+        onLoadError?.({
+          valid: false,
+          errors: [{ code: "load-failed", path: "$", message }],
+          warnings: [],
+        });
       }
     };
 
     loadPuzzle();
-  }, [ipuzData]);
+  }, [ipuzData, numbering, puzzleId]);
+
+  // Save progress once solving has started
+  const saveProgress = () => {
+    if (
+      !puzzleId ||
+      !crosswordState ||
+      isComplete ||
+      timeLedgerRef.current.length === 0
+    ) {
+      return;
+    }
+    const saved = createSavedProgress(
+      crosswordState,
+      validatedCells,
+      getElapsedSeconds(),
+      hasCompleted,
+    );
+    Promise.resolve(
+      storageAdapter.set(getProgressKey(puzzleId), JSON.stringify(saved)),
+    ).catch((error) => console.warn("Could not save progress:", error));
+  };
+  const saveProgressRef = useRef(saveProgress);
+  saveProgressRef.current = saveProgress;
+
+  // Save whenever the grid, the cursor or the completion state changes
+  useEffect(() => {
+    saveProgressRef.current();
+  }, [crosswordState, validatedCells, hasCompleted, isTimerRunning]);
+
+  // Keep the elapsed time fresh while solving and when the page goes away
+  useEffect(() => {
+    if (!puzzleId || !isTimerRunning) return;
+    const save = () => saveProgressRef.current();
+    const interval = setInterval(save, 5000);
+    window.addEventListener("pagehide", save);
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("pagehide", save);
+    };
+  }, [puzzleId, isTimerRunning]);
 
   // Scroll to active clue when it changes, but only for desktop
   useEffect(() => {
@@ -357,6 +786,45 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
     return () => clearTimeout(timeout);
   }, [crosswordState?.activeClueNumber, crosswordState?.clueOrientation]);
 
+  // Record autocheck use while solving so completion can report an assisted solve
+  useEffect(() => {
+    if (!isAutocheck || !isTimerRunning || hasCompleted) return;
+    setCrosswordState((prevState) =>
+      prevState && !prevState.usedAutocheck
+        ? { ...prevState, usedAutocheck: true }
+        : prevState,
+    );
+  }, [isAutocheck, isTimerRunning, hasCompleted]);
+
+  // Function to make a clue active, landing on its first empty cell
+  const focusClue = (clueNumber: number, orientation: "across" | "down") => {
+    if (!crosswordState) return;
+    const clueNumbers = getClueNumbers(crosswordState);
+    const startCell = findClueStartCell(
+      clueNumber,
+      clueNumbers,
+      crosswordState.rows,
+      crosswordState.columns,
+    );
+    const firstEmptyCell = findFirstEmptyCellInClue(
+      clueNumber,
+      orientation,
+      crosswordState.grid,
+      crosswordState.letters,
+      clueNumbers,
+      crosswordState.rows,
+      crosswordState.columns,
+      crosswordState.walls,
+    );
+    navigateToClueAndCell({
+      clueNumber,
+      orientation,
+      cell: firstEmptyCell || startCell,
+      crosswordState,
+      setCrosswordState,
+    });
+  };
+
   // Function to check a single answer
   const checkAnswer = () => {
     console.log("checkAnswer called");
@@ -371,6 +839,7 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
           .fill(0)
           .map(() => Array(crosswordState.columns).fill(undefined));
     const newLetters = [...crosswordState.letters];
+    const results: CellCheckResult[] = [];
 
     // Check the current word
     if (crosswordState.activeClueNumber && crosswordState.activeCell) {
@@ -384,6 +853,7 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
         row,
         col,
         orientation === "across",
+        crosswordState.walls,
       );
       console.log("Word start:", { startRow, startCol });
 
@@ -404,6 +874,10 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
           });
           // Mark the cell as validated (true if correct, false if incorrect)
           newValidatedCells[startRow][c] = isCorrect;
+          results.push({ row: startRow, col: c, correct: isCorrect });
+          if (hasWallAfter(crosswordState.walls, startRow, c, orientation)) {
+            break; // Stop at a bar
+          }
         }
       } else {
         for (let r = startRow; r < crosswordState.rows; r++) {
@@ -421,6 +895,10 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
           });
           // Mark the cell as validated (true if correct, false if incorrect)
           newValidatedCells[r][startCol] = isCorrect;
+          results.push({ row: r, col: startCol, correct: isCorrect });
+          if (hasWallAfter(crosswordState.walls, r, startCol, orientation)) {
+            break; // Stop at a bar
+          }
         }
       }
     }
@@ -428,6 +906,15 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
     console.log("Setting validated cells:", newValidatedCells);
     setValidatedCells(newValidatedCells);
     setIsActionsMenuOpen(false); // Close the actions menu
+    if (crosswordState.activeClueNumber) {
+      recordChecks([
+        {
+          number: crosswordState.activeClueNumber,
+          orientation: crosswordState.clueOrientation,
+        },
+      ]);
+    }
+    onCheck?.("word", results, getEventInfo());
   };
 
   // Function to check the entire puzzle
@@ -440,6 +927,7 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
           .fill(0)
           .map(() => Array(crosswordState.columns).fill(undefined));
     const newLetters = [...crosswordState.letters];
+    const results: CellCheckResult[] = [];
 
     // Check all cells in the puzzle
     for (let row = 0; row < crosswordState.rows; row++) {
@@ -450,25 +938,200 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
             solution[row][col].toUpperCase();
           // Mark the cell as validated (true if correct, false if incorrect)
           newValidatedCells[row][col] = isCorrect;
+          results.push({ row, col, correct: isCorrect });
         }
       }
     }
 
     setValidatedCells(newValidatedCells);
     setIsActionsMenuOpen(false); // Close the actions menu
+    recordChecks(
+      getCluesForCells(
+        crosswordState,
+        results.map(({ row, col }) => [row, col]),
+      ),
+    );
+    onCheck?.("puzzle", results, getEventInfo());
   };
 
   // Function to handle puzzle completion
-  const handlePuzzleCompletion = (completedGrid: (string | null)[][]) => {
+  const handlePuzzleCompletion = (
+    completedGrid: (string | null)[][],
+    revealed = crosswordState?.revealed,
+  ) => {
     setShowErrorToast(false);
     setShowConfetti(true);
     setHasCompleted(true);
+    // Freeze the clock at the solve time
+    timeLedgerRef.current = closeLedgerInterval(timeLedgerRef.current);
     setIsTimerRunning(false);
+    // The final letters may not have been rendered yet
+    const finalState = crosswordState && {
+      ...crosswordState,
+      letters: completedGrid.map((row) => row.map((cell) => cell ?? "")),
+    };
+    const stats = getStats(finalState);
+    getRecording(finalState);
+    setCompletionStats(stats);
     if (onComplete) {
-      onComplete(getElapsedSeconds(), completedGrid);
+      const revealedCells = countRevealedCells(revealed);
+      onComplete(getElapsedSeconds(), completedGrid, {
+        usedReveal: revealedCells > 0 || !!crosswordState?.usedReveal,
+        revealedCells,
+        usedAutocheck: !!crosswordState?.usedAutocheck,
+        stats,
+      });
+    }
+  };
+
+  // Function to reveal the active cell, the active word or the whole puzzle
+  const reveal = (scope: CellScope) => {
+    if (!crosswordState || !solution) return;
+
+    const result = revealCells(
+      crosswordState,
+      validatedCells,
+      solution,
+      getCellsInScope(crosswordState, scope),
+    );
+    setIsActionsMenuOpen(false); // Close the actions menu
+    if (result.revealedCells.length === 0) return;
+    onReveal?.(scope, result.revealedCells, getEventInfo());
+
+    setCrosswordState({
+      ...crosswordState,
+      letters: result.letters,
+      revealed: result.revealed,
+      pencilled: result.pencilled,
+      usedReveal: true,
+      rebusEntry: null,
+    });
+    setValidatedCells(result.validatedCells);
+
+    // Revealing the last missing answers finishes the puzzle
+    if (
+      isPuzzleComplete(crosswordState.grid, result.letters) &&
+      areAllAnswersCorrect(crosswordState.grid, result.letters, solution)
+    ) {
+      handlePuzzleCompletion(
+        result.letters.map((row) =>
+          row.map((cell) => (cell === "" ? null : cell)),
+        ),
+        result.revealed,
+      );
+    }
+  };
+
+  // Function to clear the active word, every incorrect cell or the whole puzzle
+  const clear = (scope: ClearScope) => {
+    if (!crosswordState) return;
+
+    const cells =
+      scope === "incorrect"
+        ? solution
+          ? getIncorrectCells(crosswordState, solution)
+          : []
+        : getCellsInScope(crosswordState, scope);
+    const result = clearCells(crosswordState, validatedCells, cells);
+    setIsActionsMenuOpen(false); // Close the actions menu
+    if (result.clearedCells.length === 0) return;
+
+    const { grid, rows, columns, walls } = crosswordState;
+    const clueNumbers = getClueNumbers(crosswordState);
+    let { activeClueNumber, clueOrientation, activeCell } = crosswordState;
+
+    // A cleared puzzle starts over from the first across clue
+    if (scope === "puzzle") {
+      const firstClue = Object.keys(crosswordState.clues.Across)[0];
+      if (firstClue) {
+        activeClueNumber = parseInt(firstClue);
+        clueOrientation = "across";
+        activeCell = findClueStartCell(
+          activeClueNumber,
+          clueNumbers,
+          rows,
+          columns,
+        );
+      }
     }
+
+    // Land on the first empty cell of the active clue, or on the first
+    // cleared cell when that clue is still full
+    let cursor = activeClueNumber
+      ? findFirstEmptyCellInClue(
+          activeClueNumber,
+          clueOrientation,
+          grid,
+          result.letters,
+          clueNumbers,
+          rows,
+          columns,
+          walls,
+        )
+      : null;
+    if (!cursor) {
+      const [row, col] = result.clearedCells[0];
+      const clueNumber = findClueNumberForCell(
+        row,
+        col,
+        clueOrientation,
+        grid,
+        clueNumbers,
+        walls,
+      );
+      const otherOrientation = clueOrientation === "across" ? "down" : "across";
+      const otherClueNumber =
+        clueNumber === null
+          ? findClueNumberForCell(
+              row,
+              col,
+              otherOrientation,
+              grid,
+              clueNumbers,
+              walls,
+            )
+          : null;
+      cursor = [row, col];
+      if (clueNumber !== null) {
+        activeClueNumber = clueNumber;
+      } else if (otherClueNumber !== null) {
+        activeClueNumber = otherClueNumber;
+        clueOrientation = otherOrientation;
+      }
+    }
+
+    setCrosswordState({
+      ...crosswordState,
+      letters: result.letters,
+      pencilled: result.pencilled,
+      activeClueNumber,
+      clueOrientation,
+      activeCell: cursor ?? activeCell,
+      rebusEntry: null,
+    });
+    setValidatedCells(result.validatedCells);
   };
 
+  // Expose the solver's actions to host apps through a ref
+  useImperativeHandle(ref, () => ({
+    checkWord: checkAnswer,
+    checkPuzzle,
+    reveal,
+    clear,
+    focusClue,
+    getProgress: () => ({
+      ...(crosswordState
+        ? getGridProgress(crosswordState, solution)
+        : { filledCells: 0, totalCells: 0, correctCells: null }),
+      elapsedSeconds: getElapsedSeconds(),
+      isComplete: hasCompleted || !!isComplete,
+    }),
+    getStats: () => getStats(),
+    getRecording: () => getRecording(),
+    pauseTimer: () => pauseTimer("user"),
+    resumeTimer,
+  }));
+
   // Note: The main CrosswordSolver no longer uses the letter handler hook directly
   // Child components (CrosswordGrid, VirtualKeyboard) handle letter changes with proper solution/callbacks
 
@@ -487,15 +1150,17 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
   useEffect(() => {
     if (isComplete && solution) {
       setIsTimerRunning(false);
+      setIsPaused(false);
       setHasCompleted(true);
       setShowSplashModal(false); // Hide splash modal if isComplete
       // Do NOT show success modal or confetti, and do NOT call onComplete here
-      setCrosswordState((prevState) => {
+      setCrosswordStateSilently((prevState) => {
         if (!prevState) return prevState;
         const newLetters = solution.map((row) => [...row]);
         return {
           ...prevState,
           letters: newLetters,
+          pencilled: undefined,
         };
       });
       setValidatedCells((prev) =>
@@ -523,6 +1188,7 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
   return (
     <div
       className={`solver-container ${isDarkMode ? "dark-mode" : ""}`}
+      style={themeStyle}
       ref={containerRef}
     >
       {showConfetti && (
@@ -549,7 +1215,7 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
           <div className="confetti"></div>
         </div>
       )}
-      <div className="solver-content">
+      <div className={`solver-content ${isPaused ? "paused" : ""}`}>
         {/* Only show clues list if not using the mobile keyboard */}
         {!useMobileKeyboard && (
           <div className="solver-clues-container">
@@ -569,34 +1235,7 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
                       }`}
                       onClick={(e) => {
                         e.preventDefault();
-                        const cellNumber = parseInt(number);
-                        const clueNumbers = calculateClueNumbers(
-                          crosswordState.grid,
-                          crosswordState.rows,
-                          crosswordState.columns,
-                        );
-                        const startCell = findClueStartCell(
-                          cellNumber,
-                          clueNumbers,
-                          crosswordState.rows,
-                          crosswordState.columns,
-                        );
-                        const firstEmptyCell = findFirstEmptyCellInClue(
-                          cellNumber,
-                          "across",
-                          crosswordState.grid,
-                          crosswordState.letters,
-                          clueNumbers,
-                          crosswordState.rows,
-                          crosswordState.columns,
-                        );
-                        navigateToClueAndCell({
-                          clueNumber: cellNumber,
-                          orientation: "across",
-                          cell: firstEmptyCell || startCell,
-                          crosswordState,
-                          setCrosswordState,
-                        });
+                        focusClue(parseInt(number), "across");
                       }}
                     >
                       <span className="solver-clue-number">{number}.</span>{" "}
@@ -623,34 +1262,7 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
                       }`}
                       onClick={(e) => {
                         e.preventDefault();
-                        const cellNumber = parseInt(number);
-                        const clueNumbers = calculateClueNumbers(
-                          crosswordState.grid,
-                          crosswordState.rows,
-                          crosswordState.columns,
-                        );
-                        const startCell = findClueStartCell(
-                          cellNumber,
-                          clueNumbers,
-                          crosswordState.rows,
-                          crosswordState.columns,
-                        );
-                        const firstEmptyCell = findFirstEmptyCellInClue(
-                          cellNumber,
-                          "down",
-                          crosswordState.grid,
-                          crosswordState.letters,
-                          clueNumbers,
-                          crosswordState.rows,
-                          crosswordState.columns,
-                        );
-                        navigateToClueAndCell({
-                          clueNumber: cellNumber,
-                          orientation: "down",
-                          cell: firstEmptyCell || startCell,
-                          crosswordState,
-                          setCrosswordState,
-                        });
+                        focusClue(parseInt(number), "down");
                       }}
                     >
                       <span className="solver-clue-number">{number}.</span>{" "}
@@ -667,9 +1279,41 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
           <div className="solver-actions">
             <div className="solver-actions-left">{leftNavElements}</div>
             <div className="solver-actions-group">
-              <div className="solver-timer">
-                {formatTime(getElapsedSeconds())}
+              <div
+                className={`solver-timer ${isTimeRunningOut ? "warning" : ""}`}
+              >
+                {formatTime(getDisplayedSeconds())}
               </div>
+              {(isTimerRunning || isPaused) && (
+                <button
+                  className="solver-actions-toggle solver-pause-toggle"
+                  onClick={() => (isPaused ? resumeTimer() : pauseTimer())}
+                  aria-label={isPaused ? "Resume timer" : "Pause timer"}
+                >
+                  {isPaused ? (
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="currentColor"
+                    >
+                      <polygon points="6 4 20 12 6 20 6 4"></polygon>
+                    </svg>
+                  ) : (
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 24 24"
+                      fill="currentColor"
+                    >
+                      <rect x="6" y="4" width="4" height="16"></rect>
+                      <rect x="14" y="4" width="4" height="16"></rect>
+                    </svg>
+                  )}
+                </button>
+              )}
               {hasMetadata() && (
                 <button
                   className="solver-actions-toggle"
@@ -741,21 +1385,64 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
               <button
                 className="solver-action-button"
                 onClick={checkAnswer}
-                disabled={
-                  !crosswordState?.activeClueNumber ||
-                  hasCompleted ||
-                  isComplete
-                }
+                disabled={!crosswordState?.activeClueNumber || isLocked}
               >
                 Check Answer
               </button>
               <button
                 className="solver-action-button"
                 onClick={checkPuzzle}
-                disabled={hasCompleted || isComplete}
+                disabled={isLocked}
               >
                 Check Puzzle
               </button>
+              <div className="solver-actions-divider" />
+              <button
+                className="solver-action-button"
+                onClick={() => reveal("cell")}
+                disabled={!crosswordState?.activeCell || isLocked}
+              >
+                Reveal Square
+              </button>
+              <button
+                className="solver-action-button"
+                onClick={() => reveal("word")}
+                disabled={!crosswordState?.activeClueNumber || isLocked}
+              >
+                Reveal Word
+              </button>
+              <button
+                className="solver-action-button"
+                onClick={() => reveal("puzzle")}
+                disabled={isLocked}
+              >
+                Reveal Puzzle
+              </button>
+              <div className="solver-actions-divider" />
+              <button
+                className="solver-action-button"
+                onClick={() => clear("word")}
+                disabled={!crosswordState?.activeClueNumber || isLocked}
+              >
+                Clear Word
+              </button>
+              <button
+                className="solver-action-button"
+                onClick={() => clear("incorrect")}
+                disabled={!solution || isLocked}
+              >
+                Clear Incorrect
+              </button>
+              <button
+                className="solver-action-button"
+                onClick={() => {
+                  setIsActionsMenuOpen(false);
+                  setShowClearPuzzleModal(true);
+                }}
+                disabled={isLocked}
+              >
+                Clear Puzzle
+              </button>
             </div>
           </div>
 
@@ -766,10 +1453,14 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
               setCrosswordState={setCrosswordState}
               validatedCells={validatedCells}
               setValidatedCells={setValidatedCells}
-              disabled={hasCompleted || isComplete}
+              disabled={isLocked || isPaused}
               solution={solution}
-              onShowError={() => setShowErrorToast(true)}
+              autocheck={isAutocheck}
+              onShowError={showError}
               onPuzzleComplete={handlePuzzleCompletion}
+              onUndo={undo}
+              onRedo={redo}
+              participants={participants}
             />
           </div>
 
@@ -781,13 +1472,34 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
               validatedCells={validatedCells}
               setValidatedCells={setValidatedCells}
               solution={solution}
-              onShowError={() => setShowErrorToast(true)}
+              autocheck={isAutocheck}
+              onShowError={showError}
               onPuzzleComplete={handlePuzzleCompletion}
+              onUndo={undo}
+              onRedo={redo}
+              canUndo={canUndo && !isLocked}
+              canRedo={canRedo && !isLocked}
+              disabled={isLocked || isPaused}
             />
           )}
         </div>
       </div>
 
+      {/* Paused: cover the puzzle until the solver comes back */}
+      {isPaused && (
+        <div className="solver-paused-overlay">
+          <div className="solver-paused-panel">
+            <h2>Paused</h2>
+            <div className="solver-paused-time">
+              {formatTime(getDisplayedSeconds())}
+            </div>
+            <button className="modal-button" onClick={resumeTimer} autoFocus>
+              Resume
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Toast notification for incorrect puzzle */}
       <Toast
         isVisible={showErrorToast}
@@ -797,6 +1509,16 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
         duration={1000}
       />
 
+      {/* Countdown mode: the grid is locked once time runs out */}
+      <Modal
+        isOpen={showTimeUpModal}
+        onClose={() => setShowTimeUpModal(false)}
+        title="Time's up!"
+        message="The grid is locked with your answers so far."
+        type="info"
+        buttonText="OK"
+      />
+
       {/* Splash modal: only show if not isComplete */}
       {!isComplete && (
         <Modal
@@ -804,17 +1526,25 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
           onClose={async () => {
             setShowSplashModal(false);
 
-            let timestampStr: string | void | undefined;
+            let started: string | TimerStart | void | undefined;
             if (onStart) {
-              timestampStr = await onStart();
+              started = await onStart();
             }
 
-            if (timestampStr) {
+            if (typeof started === "string" && started) {
               // Use the returned timestamp as the start time
-              startTimeRef.current = new Date(timestampStr).getTime();
+              timeLedgerRef.current = [
+                { start: new Date(started).getTime(), end: null },
+              ];
             } else {
-              // Initialize timer to start from now
-              startTimeRef.current = Date.now();
+              // Resume from the time already spent, starting from now
+              const elapsedSeconds =
+                (typeof started === "object"
+                  ? started?.elapsedSeconds
+                  : undefined) ?? initialElapsedSeconds;
+              timeLedgerRef.current = [
+                { start: Date.now() - elapsedSeconds * 1000, end: null },
+              ];
             }
             setIsTimerRunning(true);
 
@@ -842,6 +1572,71 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
         />
       )}
 
+      {/* Post-solve statistics */}
+      <Modal
+        isOpen={!!completionStats}
+        onClose={() => setCompletionStats(null)}
+        title="Puzzle Solved!"
+        message={
+          completionStats && (
+            <div className="solve-stats">
+              <div className="solve-stats-summary">
+                <div>
+                  <strong>{formatTime(completionStats.totalSeconds)}</strong>
+                  <span>Time</span>
+                </div>
+                <div>
+                  <strong>
+                    {completionStats.clues.reduce(
+                      (total, clue) => total + clue.checks,
+                      0,
+                    )}
+                  </strong>
+                  <span>Checks</span>
+                </div>
+                <div>
+                  <strong>
+                    {completionStats.clues.reduce(
+                      (total, clue) => total + clue.erasures,
+                      0,
+                    )}
+                  </strong>
+                  <span>Erasures</span>
+                </div>
+              </div>
+              <h3>Toughest clues</h3>
+              <ol className="solve-stats-clues">
+                {[...completionStats.clues]
+                  .sort(
+                    (a, b) =>
+                      (getClueSolveSeconds(b) ?? 0) -
+                      (getClueSolveSeconds(a) ?? 0),
+                  )
+                  .slice(0, 3)
+                  .map((clue) => (
+                    <li key={`${clue.orientation}-${clue.number}`}>
+                      <span className="solver-clue-number">
+                        {clue.number}{" "}
+                        {clue.orientation === "across" ? "A" : "D"}
+                      </span>{" "}
+                      {
+                        crosswordState.clues[
+                          clue.orientation === "across" ? "Across" : "Down"
+                        ][clue.number]
+                      }
+                      <span className="solve-stats-time">
+                        {formatTime(getClueSolveSeconds(clue) ?? 0)}
+                      </span>
+                    </li>
+                  ))}
+              </ol>
+            </div>
+          )
+        }
+        type="success"
+        buttonText="Close"
+      />
+
       <Modal
         isOpen={showInfoModal}
         onClose={() => setShowInfoModal(false)}
@@ -868,20 +1663,60 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
         type="info"
       />
 
+      <Modal
+        isOpen={showClearPuzzleModal}
+        onClose={() => setShowClearPuzzleModal(false)}
+        title="Clear Puzzle?"
+        message="This erases every letter you've entered. Givens and revealed answers stay in place."
+        type="info"
+        actions={
+          <div className="modal-actions">
+            <button
+              className="modal-button modal-button-secondary"
+              onClick={() => setShowClearPuzzleModal(false)}
+            >
+              Cancel
+            </button>
+            <button
+              className="modal-button"
+              onClick={() => {
+                setShowClearPuzzleModal(false);
+                clear("puzzle");
+              }}
+            >
+              Clear Puzzle
+            </button>
+          </div>
+        }
+      />
+
       <Modal
         isOpen={showSettingsModal}
         onClose={() => setShowSettingsModal(false)}
         title="Settings"
         message={
           <div className="settings-content">
+            {canToggleDarkMode && (
+              <div className="setting-item">
+                <label className="setting-label">
+                  <span>Dark Mode</span>
+                  <input
+                    type="checkbox"
+                    checked={isDarkMode}
+                    onChange={toggleDarkMode}
+                    className="setting-toggle dark-mode-toggle"
+                  />
+                </label>
+              </div>
+            )}
             <div className="setting-item">
               <label className="setting-label">
-                <span>Dark Mode</span>
+                <span>Autocheck</span>
                 <input
                   type="checkbox"
-                  checked={isDarkMode}
-                  onChange={toggleDarkMode}
-                  className="dark-mode-toggle"
+                  checked={isAutocheck}
+                  onChange={toggleAutocheck}
+                  className="setting-toggle autocheck-toggle"
                 />
               </label>
             </div>
@@ -893,4 +1728,6 @@ const CrosswordSolver: React.FC<CrosswordSolverProps> = ({
   );
 };
 
+const CrosswordSolver = forwardRef(CrosswordSolverComponent);
+
 export default CrosswordSolver;
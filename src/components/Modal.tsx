@@ -29,7 +29,8 @@ const Modal: React.FC<ModalProps> = ({
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === "Enter") {
         onClose();
-        onAction?.();
+        // Custom actions confirm with their own buttons, never on Enter
+        if (!actions) onAction?.();
       }
     };
 
@@ -37,7 +38,7 @@ const Modal: React.FC<ModalProps> = ({
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [onClose, onAction]);
+  }, [onClose, onAction, actions]);
 
   const getButtonText = () => {
     if (buttonText) return buttonText;
@@ -2,8 +2,8 @@ import React from "react";
 import "../styles/VirtualKeyboard.css";
 import { CrosswordState } from "../types/crossword";
 import {
-  calculateClueNumbers,
-  findWordStart,
+  getClueNumbers,
+  findClueNumberForCell,
   handleNextClue,
   handlePreviousClue,
 } from "../utils";
@@ -19,8 +19,16 @@ interface VirtualKeyboardProps {
     React.SetStateAction<(boolean | undefined)[][] | null>
   >;
   solution?: string[][] | null;
+  /** Check letters against the solution as they are typed */
+  autocheck?: boolean;
   onShowError?: () => void;
   onPuzzleComplete?: (completedGrid: (string | null)[][]) => void;
+  onUndo?: () => void;
+  onRedo?: () => void;
+  canUndo?: boolean;
+  canRedo?: boolean;
+  /** Ignore letter and rebus keys, e.g. once the puzzle is finished or time is up */
+  disabled?: boolean;
 }
 
 const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({
@@ -29,23 +37,31 @@ const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({
   validatedCells,
   setValidatedCells,
   solution = null,
+  autocheck = false,
   onShowError,
   onPuzzleComplete,
+  onUndo,
+  onRedo,
+  canUndo = false,
+  canRedo = false,
+  disabled = false,
 }) => {
   const [keyboardMode, setKeyboardMode] = React.useState<"letters" | "numbers">(
     "letters",
   );
 
   // Use the centralized letter handling hook with actual solution and callbacks
-  const { handleLetterChange } = useCrosswordLetterHandler({
-    crosswordState,
-    setCrosswordState,
-    validatedCells,
-    setValidatedCells: setValidatedCells || (() => {}),
-    solution,
-    onPuzzleComplete: onPuzzleComplete || (() => {}),
-    onShowError: onShowError || (() => {}),
-  });
+  const { handleLetterChange, toggleRebusEntry, togglePencilMode } =
+    useCrosswordLetterHandler({
+      crosswordState,
+      setCrosswordState,
+      validatedCells,
+      setValidatedCells: setValidatedCells || (() => {}),
+      solution,
+      autocheck,
+      onPuzzleComplete: onPuzzleComplete || (() => {}),
+      onShowError: onShowError || (() => {}),
+    });
 
   // Keyboard layouts
   const letterRows = [
@@ -62,8 +78,20 @@ const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({
 
   const rows = keyboardMode === "letters" ? letterRows : numberRows;
 
+  // In rebus mode keys edit the draft entry instead of the cell
+  const isRebusMode = crosswordState?.rebusEntry != null;
+  const isPencilMode = !!crosswordState?.pencilMode;
+
   // Function to handle virtual key presses
   const handleVirtualKeyPress = (key: string) => {
+    if (isRebusMode) {
+      const entry = crosswordState.rebusEntry ?? "";
+      setCrosswordState({
+        ...crosswordState,
+        rebusEntry: key ? entry + key : entry.slice(0, -1),
+      });
+      return;
+    }
     if (crosswordState && crosswordState.activeCell) {
       const [row, col] = crosswordState.activeCell;
       handleLetterChange(row, col, key);
@@ -104,32 +132,16 @@ const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({
     if (crosswordState.activeCell) {
       const [row, col] = crosswordState.activeCell;
 
-      // Find the starting cells for both horizontal and vertical words
-      const [horizontalStartRow, horizontalStartCol] = findWordStart(
-        crosswordState.grid,
-        row,
-        col,
-        true,
-      );
-      const [verticalStartRow, verticalStartCol] = findWordStart(
-        crosswordState.grid,
-        row,
-        col,
-        false,
-      );
-
       // Calculate clue numbers
-      const clueNumbers = calculateClueNumbers(
-        crosswordState.grid,
-        crosswordState.rows,
-        crosswordState.columns,
-      );
+      const clueNumbers = getClueNumbers(crosswordState);
 
-      // Get the clue numbers for both starting cells
+      // Get the clue numbers of the horizontal and vertical words
+      const { grid, walls } = crosswordState;
       const horizontalClueNumber =
-        clueNumbers[horizontalStartRow][horizontalStartCol];
+        findClueNumberForCell(row, col, "across", grid, clueNumbers, walls) ??
+        0;
       const verticalClueNumber =
-        clueNumbers[verticalStartRow][verticalStartCol];
+        findClueNumberForCell(row, col, "down", grid, clueNumbers, walls) ?? 0;
 
       // Always set the active clue number based on the new orientation
       if (newOrientation === "across" && horizontalClueNumber > 0) {
@@ -164,6 +176,7 @@ const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({
   };
 
   const handleKeyPress = (key: string) => {
+    if (disabled) return;
     if (key === "⌫") {
       // Handle backspace
       handleVirtualKeyPress("");
@@ -232,6 +245,48 @@ const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({
             <span className="no-clue">No active clue</span>
           )}
         </div>
+        <button
+          className="control-button undo-redo"
+          onClick={onUndo}
+          disabled={!canUndo}
+          aria-label="Undo"
+          title="Undo"
+        >
+          <svg
+            width="28"
+            height="28"
+            viewBox="0 0 28 28"
+            fill="none"
+            stroke="#222"
+            strokeWidth="2.5"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <polyline points="9 6 4 11 9 16" />
+            <path d="M4 11h12a7 7 0 0 1 0 14h-4" />
+          </svg>
+        </button>
+        <button
+          className="control-button undo-redo"
+          onClick={onRedo}
+          disabled={!canRedo}
+          aria-label="Redo"
+          title="Redo"
+        >
+          <svg
+            width="28"
+            height="28"
+            viewBox="0 0 28 28"
+            fill="none"
+            stroke="#222"
+            strokeWidth="2.5"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <polyline points="19 6 24 11 19 16" />
+            <path d="M24 11H12a7 7 0 0 0 0 14h4" />
+          </svg>
+        </button>
         <button
           className="control-button next-clue"
           onClick={handleNextClueClick}
@@ -294,6 +349,49 @@ const VirtualKeyboard: React.FC<VirtualKeyboardProps> = ({
               {key}
             </button>
           ))}
+          {rowIndex === 1 && (
+            <button
+              className={`keyboard-key rebus-key ${isRebusMode ? "active" : ""}`}
+              onClick={toggleRebusEntry}
+              onTouchStart={(e) => {
+                e.currentTarget.classList.add("key-active");
+              }}
+              onTouchEnd={(e) => {
+                e.preventDefault();
+                e.currentTarget.classList.remove("key-active");
+                toggleRebusEntry();
+              }}
+              onTouchCancel={(e) =>
+                e.currentTarget.classList.remove("key-active")
+              }
+              disabled={disabled}
+              aria-label={isRebusMode ? "Enter rebus" : "Rebus"}
+              aria-pressed={isRebusMode}
+            >
+              {isRebusMode ? "Enter" : "Rebus"}
+            </button>
+          )}
+          {rowIndex === 2 && (
+            <button
+              className={`keyboard-key pencil-key ${isPencilMode ? "active" : ""}`}
+              onClick={togglePencilMode}
+              onTouchStart={(e) => {
+                e.currentTarget.classList.add("key-active");
+              }}
+              onTouchEnd={(e) => {
+                e.preventDefault();
+                e.currentTarget.classList.remove("key-active");
+                togglePencilMode();
+              }}
+              onTouchCancel={(e) =>
+                e.currentTarget.classList.remove("key-active")
+              }
+              aria-label="Pencil"
+              aria-pressed={isPencilMode}
+            >
+              ✎
+            </button>
+          )}
           {rowIndex === 2 && (
             <button
               className="keyboard-key backspace-key"
@@ -0,0 +1,126 @@
+import { useCallback, useMemo, useRef, useState } from "react";
+import { CrosswordState } from "../types/crossword";
+import { applyControlledValues } from "../utils";
+
+type ValidatedCells = (boolean | undefined)[][] | null;
+
+export interface ControlledCrosswordProps {
+  /** Letters in the grid; makes the letters controlled when set */
+  letters?: string[][];
+  /** Called with the new letters whenever the solver edits the grid */
+  onLettersChange?: (letters: string[][]) => void;
+  /** The cursor position; makes the cursor controlled when set */
+  activeCell?: [number, number] | null;
+  /** Called with the new position whenever the solver moves the cursor */
+  onActiveCellChange?: (cell: [number, number] | null) => void;
+  /** Check marks (true = right, false = wrong); makes them controlled when set */
+  validatedCells?: ValidatedCells;
+  /** Called with the new check marks whenever the solver changes them */
+  onValidatedCellsChange?: (cells: ValidatedCells) => void;
+}
+
+const isSameCell = (
+  a: [number, number] | null | undefined,
+  b: [number, number] | null | undefined,
+): boolean => (a && b ? a[0] === b[0] && a[1] === b[1] : a === b);
+
+/**
+ * CONTROLLED STATE HOOK
+ *
+ * Holds the solver state the way `useState` would, but lets the host app own
+ * the letters, the cursor and the check marks through value/onChange props.
+ * Controlled values replace the internal ones on every render, and every
+ * change the solver makes is reported through the matching callback. Props
+ * left undefined stay uncontrolled.
+ *
+ * The returned setters accept values or updater functions, so they can be
+ * passed anywhere a `useState` setter is expected.
+ */
+export const useControlledCrosswordState = ({
+  letters,
+  onLettersChange,
+  activeCell,
+  onActiveCellChange,
+  validatedCells: controlledValidatedCells,
+  onValidatedCellsChange,
+}: ControlledCrosswordProps): {
+  crosswordState: CrosswordState | null;
+  setCrosswordState: React.Dispatch<
+    React.SetStateAction<CrosswordState | null>
+  >;
+  validatedCells: ValidatedCells;
+  setValidatedCells: React.Dispatch<React.SetStateAction<ValidatedCells>>;
+} => {
+  const [internalState, setInternalState] = useState<CrosswordState | null>(
+    null,
+  );
+  const [internalValidatedCells, setInternalValidatedCells] =
+    useState<ValidatedCells>(null);
+
+  const crosswordState = useMemo(
+    () =>
+      internalState &&
+      applyControlledValues(internalState, { letters, activeCell }),
+    [internalState, letters, activeCell],
+  );
+  const validatedCells =
+    controlledValidatedCells !== undefined
+      ? controlledValidatedCells
+      : internalValidatedCells;
+
+  // Latest values, so several updates in one event build on each other
+  const stateRef = useRef(crosswordState);
+  stateRef.current = crosswordState;
+  const validatedCellsRef = useRef(validatedCells);
+  validatedCellsRef.current = validatedCells;
+  const callbacksRef = useRef({
+    onLettersChange,
+    onActiveCellChange,
+    onValidatedCellsChange,
+  });
+  callbacksRef.current = {
+    onLettersChange,
+    onActiveCellChange,
+    onValidatedCellsChange,
+  };
+
+  const setCrosswordState: React.Dispatch<
+    React.SetStateAction<CrosswordState | null>
+  > = useCallback((action) => {
+    const prevState = stateRef.current;
+    const nextState = typeof action === "function" ? action(prevState) : action;
+    stateRef.current = nextState;
+
+    // Loading a puzzle isn't a change the host app needs to hear about
+    if (prevState && nextState) {
+      const { onLettersChange, onActiveCellChange } = callbacksRef.current;
+      if (nextState.letters !== prevState.letters) {
+        onLettersChange?.(nextState.letters);
+      }
+      if (!isSameCell(nextState.activeCell, prevState.activeCell)) {
+        onActiveCellChange?.(nextState.activeCell);
+      }
+    }
+    setInternalState(nextState);
+  }, []);
+
+  const setValidatedCells: React.Dispatch<
+    React.SetStateAction<ValidatedCells>
+  > = useCallback((action) => {
+    const prevCells = validatedCellsRef.current;
+    const nextCells = typeof action === "function" ? action(prevCells) : action;
+    validatedCellsRef.current = nextCells;
+
+    if (stateRef.current && nextCells !== prevCells) {
+      callbacksRef.current.onValidatedCellsChange?.(nextCells);
+    }
+    setInternalValidatedCells(nextCells);
+  }, []);
+
+  return {
+    crosswordState,
+    setCrosswordState,
+    validatedCells,
+    setValidatedCells,
+  };
+};
@@ -0,0 +1,225 @@
+import { useEffect, useRef, useState } from "react";
+import { CrosswordState } from "../types/crossword";
+import {
+  CollaborationMessage,
+  CollaborationOperation,
+  CollaborationTransport,
+  OperationStamps,
+  ParticipantPresence,
+  createLetterOperations,
+  createOperationStamps,
+  getParticipantColor,
+  getStampedOperations,
+  mergeOperations,
+} from "../collaboration";
+import { getLockedCells } from "../utils";
+
+export interface CollaborationOptions {
+  transport: CollaborationTransport;
+  /** Unique ID of the local participant */
+  author: string;
+  /** Display name shown to other participants */
+  name?: string;
+  /** Color other participants see this cursor in; picked from the ID by default */
+  color?: string;
+}
+
+interface UseCrosswordCollaborationProps {
+  crosswordState: CrosswordState | null;
+  setCrosswordState: React.Dispatch<
+    React.SetStateAction<CrosswordState | null>
+  >;
+  collaboration?: CollaborationOptions;
+}
+
+const cellKey = ([row, col]: [number, number]) => `${row},${col}`;
+
+/**
+ * COLLABORATION HOOK
+ *
+ * Shares the grid with other participants through the given transport.
+ * Watches the solver state and sends every letter change as an operation,
+ * whichever component made it, merges operations from others into the grid
+ * and keeps track of where everyone's cursor is. A participant who joins late
+ * is sent the current grid by the others.
+ *
+ * Only letters and cursors are shared; check marks, reveals and pencil marks
+ * stay with each participant. Remote edits never overwrite givens or answers
+ * this participant revealed.
+ */
+export const useCrosswordCollaboration = ({
+  crosswordState,
+  setCrosswordState,
+  collaboration,
+}: UseCrosswordCollaborationProps): {
+  participants: ParticipantPresence[];
+} => {
+  const [participants, setParticipants] = useState<
+    Record<string, ParticipantPresence>
+  >({});
+  const clockRef = useRef(0);
+  const stampsRef = useRef<OperationStamps | null>(null);
+  const lastLettersRef = useRef<string[][] | null>(null);
+  // Remote values on their way into the grid, which must not be sent back out
+  const incomingRef = useRef(new Map<string, string>());
+  const stateRef = useRef(crosswordState);
+  stateRef.current = crosswordState;
+
+  const transport = collaboration?.transport;
+  const author = collaboration?.author;
+  const presence: ParticipantPresence | null =
+    collaboration && crosswordState
+      ? {
+          author: collaboration.author,
+          name: collaboration.name,
+          color:
+            collaboration.color ?? getParticipantColor(collaboration.author),
+          activeCell: crosswordState.activeCell,
+          clueOrientation: crosswordState.clueOrientation,
+        }
+      : null;
+  const presenceRef = useRef(presence);
+  presenceRef.current = presence;
+
+  // Send local letter changes
+  useEffect(() => {
+    if (!transport || !author || !crosswordState) return;
+
+    const lastLetters = lastLettersRef.current;
+    lastLettersRef.current = crosswordState.letters;
+
+    // A different puzzle was loaded; start a fresh grid of stamps
+    if (
+      !lastLetters ||
+      !stampsRef.current ||
+      stampsRef.current.length !== crosswordState.rows ||
+      stampsRef.current[0]?.length !== crosswordState.columns
+    ) {
+      stampsRef.current = createOperationStamps(
+        crosswordState.rows,
+        crosswordState.columns,
+      );
+      return;
+    }
+
+    const operations = createLetterOperations(
+      lastLetters,
+      crosswordState.letters,
+      author,
+      clockRef.current,
+    ).filter((operation) => {
+      const key = cellKey(operation.cell);
+      if (incomingRef.current.get(key) !== operation.value) return true;
+      incomingRef.current.delete(key);
+      return false;
+    });
+    if (operations.length === 0) return;
+
+    clockRef.current = operations[operations.length - 1].clock;
+    stampsRef.current = mergeOperations(
+      crosswordState.letters,
+      stampsRef.current,
+      operations,
+    ).stamps;
+    transport.send({ type: "operations", operations });
+  }, [crosswordState, transport, author]);
+
+  // Merge remote operations and track other participants
+  const isReady = !!crosswordState;
+  useEffect(() => {
+    if (!transport || !author || !isReady) return;
+
+    const applyOperations = (operations: CollaborationOperation[]) => {
+      const state = stateRef.current;
+      if (!state || !stampsRef.current) return;
+
+      // Keep the Lamport clock ahead of everything seen
+      clockRef.current = Math.max(
+        clockRef.current,
+        ...operations.map((operation) => operation.clock),
+      );
+
+      const result = mergeOperations(
+        state.letters,
+        stampsRef.current,
+        operations,
+        getLockedCells(state),
+      );
+      stampsRef.current = result.stamps;
+      if (result.applied.length === 0) return;
+
+      result.applied.forEach(({ cell, value }) => {
+        if (state.letters[cell[0]][cell[1]] !== value) {
+          incomingRef.current.set(cellKey(cell), value);
+        }
+      });
+      setCrosswordState((prevState) => {
+        if (!prevState) return prevState;
+        const letters = prevState.letters.map((row) => [...row]);
+        result.applied.forEach(({ cell: [row, col], value }) => {
+          letters[row][col] = value;
+        });
+        return { ...prevState, letters };
+      });
+    };
+
+    const handleMessage = (message: CollaborationMessage) => {
+      switch (message.type) {
+        case "operations":
+          applyOperations(message.operations);
+          break;
+        case "presence":
+          if (message.presence.author === author) break;
+          setParticipants((prev) => ({
+            ...prev,
+            [message.presence.author]: message.presence,
+          }));
+          break;
+        case "join": {
+          if (message.author === author) break;
+          // Bring the newcomer up to date
+          const state = stateRef.current;
+          if (state && stampsRef.current) {
+            const operations = getStampedOperations(
+              state.letters,
+              stampsRef.current,
+            );
+            if (operations.length > 0) {
+              transport.send({ type: "operations", operations });
+            }
+          }
+          if (presenceRef.current) {
+            transport.send({ type: "presence", presence: presenceRef.current });
+          }
+          break;
+        }
+        case "leave":
+          setParticipants((prev) => {
+            const next = { ...prev };
+            delete next[message.author];
+            return next;
+          });
+          break;
+      }
+    };
+
+    const unsubscribe = transport.subscribe(handleMessage);
+    transport.send({ type: "join", author });
+    return () => {
+      transport.send({ type: "leave", author });
+      unsubscribe();
+      setParticipants({});
+    };
+  }, [transport, author, isReady, setCrosswordState]);
+
+  // Share the local cursor
+  const activeRow = presence?.activeCell?.[0];
+  const activeCol = presence?.activeCell?.[1];
+  const orientation = presence?.clueOrientation;
+  useEffect(() => {
+    if (!transport || !presenceRef.current) return;
+    transport.send({ type: "presence", presence: presenceRef.current });
+  }, [transport, activeRow, activeCol, orientation]);
+
+  return { participants: Object.values(participants) };
+};
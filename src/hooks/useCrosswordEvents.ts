@@ -0,0 +1,142 @@
+import { useCallback, useRef } from "react";
+import {
+  CellCheckResult,
+  CrosswordState,
+  SolverEventInfo,
+} from "../types/crossword";
+import { CellScope } from "../utils";
+
+export interface CrosswordEventCallbacks {
+  /**
+   * Called for every cell whose letter the local user changes: typing,
+   * deleting, reveals, clears and undo. Other participants' edits, restored
+   * progress and controlled `letters` are not reported.
+   */
+  onCellChange?: (
+    row: number,
+    col: number,
+    prev: string,
+    next: string,
+    info: SolverEventInfo,
+  ) => void;
+  /** Called when the local user makes a different clue active */
+  onActiveClueChange?: (
+    clueNumber: number,
+    orientation: "across" | "down",
+    info: SolverEventInfo,
+  ) => void;
+  /** Called when the active word or the whole puzzle is checked */
+  onCheck?: (
+    scope: "word" | "puzzle",
+    results: CellCheckResult[],
+    info: SolverEventInfo,
+  ) => void;
+  /** Called with the cells filled in by a reveal */
+  onReveal?: (
+    scope: CellScope,
+    cells: [number, number][],
+    info: SolverEventInfo,
+  ) => void;
+  /** Called when a filled grid turns out to be wrong */
+  onError?: (info: SolverEventInfo) => void;
+}
+
+interface UseCrosswordEventsProps
+  extends Pick<CrosswordEventCallbacks, "onCellChange" | "onActiveClueChange"> {
+  setCrosswordState: React.Dispatch<
+    React.SetStateAction<CrosswordState | null>
+  >;
+  getEventInfo: () => SolverEventInfo;
+}
+
+type EventReporters = Omit<UseCrosswordEventsProps, "setCrosswordState">;
+
+const reportChanges = (
+  prevState: CrosswordState,
+  nextState: CrosswordState,
+  { getEventInfo, onCellChange, onActiveClueChange }: EventReporters,
+) => {
+  // A different puzzle was loaded
+  if (
+    prevState.clues !== nextState.clues ||
+    prevState.rows !== nextState.rows ||
+    prevState.columns !== nextState.columns
+  ) {
+    return;
+  }
+
+  if (onCellChange && prevState.letters !== nextState.letters) {
+    const info = getEventInfo();
+    nextState.letters.forEach((row, r) => {
+      if (row === prevState.letters[r]) return;
+      row.forEach((next, c) => {
+        const prev = prevState.letters[r]?.[c] ?? "";
+        if (prev !== next) onCellChange(r, c, prev, next, info);
+      });
+    });
+  }
+
+  if (
+    onActiveClueChange &&
+    nextState.activeClueNumber !== null &&
+    (nextState.activeClueNumber !== prevState.activeClueNumber ||
+      nextState.clueOrientation !== prevState.clueOrientation)
+  ) {
+    onActiveClueChange(
+      nextState.activeClueNumber,
+      nextState.clueOrientation,
+      getEventInfo(),
+    );
+  }
+};
+
+/**
+ * SOLVER EVENTS HOOK
+ *
+ * Wraps the solver's state setter so the local user's edits report letter
+ * and active clue changes: typing, deleting, reveals, clears, undo and clue
+ * navigation all come through it. Updates made with the unwrapped setter,
+ * such as loading a puzzle or merging other participants' edits, and values
+ * from controlled props are not reported, and neither is a different puzzle
+ * (one with other clues) being swapped in.
+ *
+ * The wrapped setter works out the next state straight away, so it must wrap
+ * a setter that does too (see useControlledCrosswordState) rather than a
+ * React state setter, whose updaters may run more than once.
+ */
+export const useCrosswordEvents = ({
+  setCrosswordState,
+  getEventInfo,
+  onCellChange,
+  onActiveClueChange,
+}: UseCrosswordEventsProps): {
+  setCrosswordState: React.Dispatch<
+    React.SetStateAction<CrosswordState | null>
+  >;
+} => {
+  // Latest callbacks, so the wrapped setter can stay the same
+  const reportersRef = useRef<EventReporters>({
+    getEventInfo,
+    onCellChange,
+    onActiveClueChange,
+  });
+  reportersRef.current = { getEventInfo, onCellChange, onActiveClueChange };
+
+  const setReportedState: React.Dispatch<
+    React.SetStateAction<CrosswordState | null>
+  > = useCallback(
+    (action) => {
+      setCrosswordState((prevState) => {
+        const nextState =
+          typeof action === "function" ? action(prevState) : action;
+        if (prevState && nextState) {
+          reportChanges(prevState, nextState, reportersRef.current);
+        }
+        return nextState;
+      });
+    },
+    [setCrosswordState],
+  );
+
+  return { setCrosswordState: setReportedState };
+};
@@ -0,0 +1,119 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  CrosswordState,
+  HistoryEntry,
+  HistorySnapshot,
+} from "../types/crossword";
+import {
+  applyHistorySnapshot,
+  hasGridContentChanged,
+  takeHistorySnapshot,
+} from "../utils";
+
+interface UseCrosswordHistoryProps {
+  crosswordState: CrosswordState | null;
+  setCrosswordState: React.Dispatch<
+    React.SetStateAction<CrosswordState | null>
+  >;
+  validatedCells: (boolean | undefined)[][] | null;
+  setValidatedCells: (cells: (boolean | undefined)[][] | null) => void;
+  /** Maximum number of edits kept on the undo stack */
+  limit?: number;
+}
+
+/**
+ * UNDO / REDO HISTORY HOOK
+ *
+ * Watches the solver state and records every change to the grid contents
+ * (letter entry, deletions, checks, reveals, clears) as a history entry,
+ * whichever component made it. Cursor movement on its own is not recorded.
+ *
+ * Undo restores `letters`, `validatedCells`, reveals and pencil flags as they
+ * were before the edit and moves the cursor back to where it was made; redo
+ * re-applies the edit.
+ */
+export const useCrosswordHistory = ({
+  crosswordState,
+  setCrosswordState,
+  validatedCells,
+  setValidatedCells,
+  limit = 100,
+}: UseCrosswordHistoryProps): {
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+} => {
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  const lastSnapshotRef = useRef<HistorySnapshot | null>(null);
+  // Set while undo/redo is being applied so the change isn't recorded again
+  const isRestoringRef = useRef(false);
+
+  useEffect(() => {
+    if (!crosswordState) {
+      lastSnapshotRef.current = null;
+      return;
+    }
+
+    const snapshot = takeHistorySnapshot(crosswordState, validatedCells);
+    const lastSnapshot = lastSnapshotRef.current;
+    lastSnapshotRef.current = snapshot;
+
+    if (isRestoringRef.current) {
+      isRestoringRef.current = false;
+      return;
+    }
+    if (!lastSnapshot) return;
+
+    // A different puzzle was loaded; its history starts fresh
+    if (
+      lastSnapshot.letters.length !== snapshot.letters.length ||
+      lastSnapshot.letters[0]?.length !== snapshot.letters[0]?.length
+    ) {
+      setUndoStack([]);
+      setRedoStack([]);
+      return;
+    }
+
+    if (!hasGridContentChanged(lastSnapshot, snapshot)) return;
+
+    setUndoStack((stack) =>
+      [...stack, { before: lastSnapshot, after: snapshot }].slice(-limit),
+    );
+    setRedoStack([]);
+  }, [crosswordState, validatedCells, limit]);
+
+  const restore = useCallback(
+    (snapshot: HistorySnapshot) => {
+      if (!crosswordState) return;
+      isRestoringRef.current = true;
+      setCrosswordState(applyHistorySnapshot(crosswordState, snapshot));
+      setValidatedCells(snapshot.validatedCells);
+    },
+    [crosswordState, setCrosswordState, setValidatedCells],
+  );
+
+  const undo = useCallback(() => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry || !crosswordState) return;
+    restore(entry.before);
+    setUndoStack((stack) => stack.slice(0, -1));
+    setRedoStack((stack) => [...stack, entry]);
+  }, [undoStack, crosswordState, restore]);
+
+  const redo = useCallback(() => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry || !crosswordState) return;
+    restore(entry.after);
+    setRedoStack((stack) => stack.slice(0, -1));
+    setUndoStack((stack) => [...stack, entry]);
+  }, [redoStack, crosswordState, restore]);
+
+  return {
+    undo,
+    redo,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+  };
+};
@@ -6,6 +6,7 @@ import {
   handleNextClue,
   isPuzzleComplete,
   areAllAnswersCorrect,
+  getLockedCells,
 } from "../utils";
 
 interface UseCrosswordLetterHandlerProps {
@@ -16,6 +17,8 @@ interface UseCrosswordLetterHandlerProps {
   validatedCells: (boolean | undefined)[][] | null;
   setValidatedCells: (cells: (boolean | undefined)[][]) => void;
   solution: string[][] | null;
+  /** Mark typed letters right or wrong as soon as they are entered */
+  autocheck?: boolean;
   onPuzzleComplete?: (completedLetters: (string | null)[][]) => void;
   onShowError?: () => void;
 }
@@ -39,10 +42,14 @@ export const useCrosswordLetterHandler = ({
   validatedCells,
   setValidatedCells,
   solution,
+  autocheck = false,
   onPuzzleComplete,
   onShowError,
 }: UseCrosswordLetterHandlerProps): {
   handleLetterChange: (row: number, col: number, letter: string) => void;
+  toggleRebusEntry: () => void;
+  commitRebusEntry: () => void;
+  togglePencilMode: () => void;
 } => {
   const handleLetterChange = useCallback(
     (row: number, col: number, letter: string) => {
@@ -60,19 +67,34 @@ export const useCrosswordLetterHandler = ({
         row,
         col,
         letter,
+        clueNumbers: crosswordState.clueNumbers,
+        walls: crosswordState.walls,
+        lockedCells: getLockedCells(crosswordState),
+        autocheck,
+        solution,
+        pencilled: crosswordState.pencilled,
+        pencil: crosswordState.pencilMode,
       };
 
       // Process the letter change using the pure function
       const result = processLetterChange(input);
       if (!result) return; // Change was blocked
 
-      const { newLetters, newValidatedCells, newActiveCell, actions } = result;
+      const {
+        newLetters,
+        newValidatedCells,
+        newPencilled,
+        newActiveCell,
+        actions,
+      } = result;
 
-      // Apply the basic state changes
+      // Apply the basic state changes; any letter change ends rebus mode
       const newState = {
         ...crosswordState,
         letters: newLetters,
+        pencilled: newPencilled,
         activeCell: newActiveCell,
+        rebusEntry: null,
       };
 
       // Process actions
@@ -141,10 +163,69 @@ export const useCrosswordLetterHandler = ({
       validatedCells,
       setValidatedCells,
       solution,
+      autocheck,
       onPuzzleComplete,
       onShowError,
     ],
   );
 
-  return { handleLetterChange };
+  /**
+   * REBUS ENTRY
+   *
+   * Rebus mode lets the active cell take a multi-letter string. The draft is
+   * kept in `crosswordState.rebusEntry` and goes through the regular letter
+   * handling (navigation, validation, completion) when committed.
+   */
+  const commitRebusEntry = useCallback(() => {
+    if (!crosswordState || crosswordState.rebusEntry == null) return;
+    const { activeCell, rebusEntry, letters } = crosswordState;
+    const entry = rebusEntry.trim().toUpperCase();
+
+    // Leaving an empty cell empty just ends rebus mode
+    if (!activeCell || (!entry && !letters[activeCell[0]][activeCell[1]])) {
+      setCrosswordState({ ...crosswordState, rebusEntry: null });
+      return;
+    }
+    handleLetterChange(activeCell[0], activeCell[1], entry);
+  }, [crosswordState, setCrosswordState, handleLetterChange]);
+
+  const toggleRebusEntry = useCallback(() => {
+    if (!crosswordState || !crosswordState.activeCell) return;
+    if (crosswordState.rebusEntry != null) {
+      commitRebusEntry();
+      return;
+    }
+    const [row, col] = crosswordState.activeCell;
+    if (
+      crosswordState.grid[row][col] ||
+      getLockedCells(crosswordState)?.[row][col]
+    ) {
+      return;
+    }
+    setCrosswordState({
+      ...crosswordState,
+      rebusEntry: crosswordState.letters[row][col],
+    });
+  }, [crosswordState, setCrosswordState, commitRebusEntry]);
+
+  /**
+   * PENCIL MODE
+   *
+   * Letters typed in pencil mode are flagged in `crosswordState.pencilled` and
+   * drawn as tentative guesses until they are typed over in pen.
+   */
+  const togglePencilMode = useCallback(() => {
+    if (!crosswordState) return;
+    setCrosswordState({
+      ...crosswordState,
+      pencilMode: !crosswordState.pencilMode,
+    });
+  }, [crosswordState, setCrosswordState]);
+
+  return {
+    handleLetterChange,
+    toggleRebusEntry,
+    commitRebusEntry,
+    togglePencilMode,
+  };
 };
@@ -0,0 +1,79 @@
+import { CSSProperties, useEffect, useMemo, useState } from "react";
+import { CrosswordTheme, getThemeVariables, isDarkTheme } from "../theme";
+
+const DARK_MODE_KEY = "xword-dark-mode";
+const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+interface UseCrosswordThemeProps {
+  theme?: CrosswordTheme;
+  /** Whether the user's dark mode choice is kept in localStorage */
+  persist: boolean;
+}
+
+const getPrefersDark = (): boolean =>
+  typeof window !== "undefined" &&
+  typeof window.matchMedia === "function" &&
+  window.matchMedia(DARK_SCHEME_QUERY).matches;
+
+/**
+ * CROSSWORD THEME HOOK
+ *
+ * Decides between the light and dark palettes and builds the CSS variables a
+ * custom theme sets. Without a `theme` the user picks dark mode in Settings
+ * (dark by default), remembered in localStorage when `persist` is set; with
+ * one the host app decides and the setting is hidden. "system" follows the
+ * operating system, including changes while the solver is open.
+ */
+export const useCrosswordTheme = ({
+  theme,
+  persist,
+}: UseCrosswordThemeProps): {
+  isDarkMode: boolean;
+  /** Whether the user can switch dark mode on and off */
+  canToggleDarkMode: boolean;
+  toggleDarkMode: () => void;
+  style: CSSProperties;
+} => {
+  const [userDarkMode, setUserDarkMode] = useState<boolean>(() => {
+    const stored = persist ? localStorage.getItem(DARK_MODE_KEY) : null;
+    if (stored !== null) {
+      return stored === "true";
+    }
+    return true; // Default to dark mode
+  });
+  const [prefersDark, setPrefersDark] = useState(getPrefersDark);
+
+  // Persist the user's choice
+  useEffect(() => {
+    if (persist && !theme) {
+      localStorage.setItem(DARK_MODE_KEY, String(userDarkMode));
+    }
+  }, [persist, theme, userDarkMode]);
+
+  // Follow the operating system setting
+  useEffect(() => {
+    if (theme !== "system" || typeof window.matchMedia !== "function") return;
+
+    const query = window.matchMedia(DARK_SCHEME_QUERY);
+    const handleChange = () => setPrefersDark(query.matches);
+    handleChange();
+    query.addEventListener("change", handleChange);
+    return () => query.removeEventListener("change", handleChange);
+  }, [theme]);
+
+  const style = useMemo(
+    () => getThemeVariables(theme) as CSSProperties,
+    [theme],
+  );
+
+  const toggleDarkMode = () => {
+    setUserDarkMode((prev) => !prev);
+  };
+
+  return {
+    isDarkMode: theme ? isDarkTheme(theme, prefersDark) : userDarkMode,
+    canToggleDarkMode: !theme,
+    toggleDarkMode,
+    style,
+  };
+};
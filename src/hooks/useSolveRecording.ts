@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef } from "react";
+import { CrosswordState } from "../types/crossword";
+import {
+  SolveRecording,
+  createSolveRecording,
+  getReplayEvents,
+} from "../replay";
+
+interface UseSolveRecordingProps {
+  crosswordState: CrosswordState | null;
+  /** Active solving time in milliseconds */
+  getElapsedMs: () => number;
+}
+
+/**
+ * SOLVE RECORDING HOOK
+ *
+ * Watches the solver state and logs every cell change and cursor move with
+ * the solving time it happened at, whichever component made it. Letters
+ * already in the grid when a puzzle loads (such as restored progress) are
+ * logged at time 0. Loading a different puzzle starts a new recording.
+ */
+export const useSolveRecording = ({
+  crosswordState,
+  getElapsedMs,
+}: UseSolveRecordingProps): {
+  getRecording: (latestState?: CrosswordState | null) => SolveRecording | null;
+} => {
+  const recordingRef = useRef<SolveRecording | null>(null);
+  const lastStateRef = useRef<CrosswordState | null>(null);
+  const elapsedRef = useRef(getElapsedMs);
+  elapsedRef.current = getElapsedMs;
+
+  useEffect(() => {
+    const lastState = lastStateRef.current;
+    lastStateRef.current = crosswordState;
+    if (!crosswordState) return;
+
+    // A different puzzle was loaded
+    if (
+      !lastState ||
+      !recordingRef.current ||
+      lastState.rows !== crosswordState.rows ||
+      lastState.columns !== crosswordState.columns ||
+      lastState.clues !== crosswordState.clues
+    ) {
+      recordingRef.current = createSolveRecording(crosswordState);
+      recordingRef.current.events = getReplayEvents(
+        {
+          ...crosswordState,
+          letters: crosswordState.letters.map((row) => row.map(() => "")),
+          activeCell: null,
+        },
+        crosswordState,
+        0,
+      );
+      return;
+    }
+
+    recordingRef.current.events.push(
+      ...getReplayEvents(
+        lastState,
+        crosswordState,
+        Math.round(elapsedRef.current()),
+      ),
+    );
+  }, [crosswordState]);
+
+  // A state that hasn't been rendered yet (e.g. the final letter of a solve)
+  // can be passed in so the recording includes it
+  const getRecording = useCallback(
+    (latestState?: CrosswordState | null): SolveRecording | null => {
+      const lastState = lastStateRef.current;
+      if (latestState && lastState && recordingRef.current) {
+        recordingRef.current.events.push(
+          ...getReplayEvents(
+            lastState,
+            latestState,
+            Math.round(elapsedRef.current()),
+          ),
+        );
+        lastStateRef.current = latestState;
+      }
+      return recordingRef.current;
+    },
+    [],
+  );
+
+  return { getRecording };
+};
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef } from "react";
+import {
+  ClueOrientation,
+  CrosswordState,
+  SolveStats,
+} from "../types/crossword";
+import { createSolveStats, recordClueChecks, updateSolveStats } from "../utils";
+
+interface UseSolveStatsProps {
+  crosswordState: CrosswordState | null;
+  getElapsedSeconds: () => number;
+}
+
+/**
+ * SOLVE STATISTICS HOOK
+ *
+ * Watches the solver state and records, for every clue, when it was first
+ * entered and completed and how often letters were erased from it, whichever
+ * component made the change. Checks are recorded by the caller through
+ * `recordChecks`. Loading a different puzzle starts fresh statistics.
+ */
+export const useSolveStats = ({
+  crosswordState,
+  getElapsedSeconds,
+}: UseSolveStatsProps): {
+  getStats: (latestState?: CrosswordState | null) => SolveStats;
+  recordChecks: (
+    clues: { number: number; orientation: ClueOrientation }[],
+  ) => void;
+} => {
+  const statsRef = useRef<SolveStats | null>(null);
+  const lastStateRef = useRef<CrosswordState | null>(null);
+  const elapsedRef = useRef(getElapsedSeconds);
+  elapsedRef.current = getElapsedSeconds;
+
+  useEffect(() => {
+    const lastState = lastStateRef.current;
+    lastStateRef.current = crosswordState;
+    if (!crosswordState) return;
+
+    // A different puzzle was loaded
+    if (
+      !lastState ||
+      !statsRef.current ||
+      lastState.rows !== crosswordState.rows ||
+      lastState.columns !== crosswordState.columns ||
+      lastState.clues !== crosswordState.clues
+    ) {
+      statsRef.current = createSolveStats(crosswordState);
+      return;
+    }
+
+    statsRef.current = updateSolveStats(
+      statsRef.current,
+      lastState,
+      crosswordState,
+      elapsedRef.current(),
+    );
+  }, [crosswordState]);
+
+  // A state that hasn't been rendered yet (e.g. the final letter of a solve)
+  // can be passed in so the statistics include it
+  const getStats = useCallback(
+    (latestState?: CrosswordState | null): SolveStats => {
+      const lastState = lastStateRef.current;
+      if (latestState && lastState && statsRef.current) {
+        statsRef.current = updateSolveStats(
+          statsRef.current,
+          lastState,
+          latestState,
+          elapsedRef.current(),
+        );
+        lastStateRef.current = latestState;
+      }
+      return {
+        ...(statsRef.current ?? { clues: [] }),
+        totalSeconds: elapsedRef.current(),
+      };
+    },
+    [],
+  );
+
+  const recordChecks = useCallback(
+    (clues: { number: number; orientation: ClueOrientation }[]) => {
+      if (statsRef.current) {
+        statsRef.current = recordClueChecks(statsRef.current, clues);
+      }
+    },
+    [],
+  );
+
+  return { getStats, recordChecks };
+};
@@ -1,7 +1,9 @@
 // Export components
 export { default as CrosswordSolver } from "./components/CrosswordSolver";
+export type { CrosswordSolverHandle } from "./components/CrosswordSolver";
 export { default as CrosswordGrid } from "./components/CrosswordGrid";
 export { default as VirtualKeyboard } from "./components/VirtualKeyboard";
+export { default as CrosswordReplay } from "./components/CrosswordReplay";
 
 // Export types
 export * from "./types/crossword";
@@ -9,6 +11,20 @@ export * from "./types/ipuz";
 
 // Export utilities
 export * from "./utils";
+export * from "./puz";
+export * from "./validation";
+export * from "./loader";
+export * from "./storage";
+export * from "./collaboration";
+export * from "./replay";
+export * from "./theme";
 
 // Export hooks
 export * from "./hooks/useCrosswordLetterHandler";
+export * from "./hooks/useCrosswordHistory";
+export * from "./hooks/useControlledCrosswordState";
+export * from "./hooks/useCrosswordEvents";
+export * from "./hooks/useCrosswordCollaboration";
+export * from "./hooks/useSolveStats";
+export * from "./hooks/useSolveRecording";
+export * from "./hooks/useCrosswordTheme";
@@ -0,0 +1,438 @@
+import {
+  CellDivider,
+  CellStyle,
+  CrosswordState,
+  GridWalls,
+} from "./types/crossword";
+import {
+  IPuzGrid,
+  IPuzPuzzle,
+  IPuzSolutionCell,
+  IPuzStyle,
+} from "./types/ipuz";
+import { calculateClueNumbers, findFirstValidCell } from "./utils";
+
+/**
+ * PUZZLE LOADING
+ *
+ * Converts ipuz data into the solver's internal CrosswordState. Kept free of
+ * React so that the same conversion can be used by any component.
+ */
+
+export const DEFAULT_BLOCK = "#";
+export const DEFAULT_EMPTY = 0;
+
+/**
+ * How a puzzle cell takes part in the grid:
+ * - "block": a black square that separates words
+ * - "void": an omitted cell (ipuz `null`) used for irregular shapes; it is
+ *   not drawn at all but acts as a word boundary just like a block
+ * - "cell": a white square that takes a letter
+ */
+export type IpuzCellKind = "block" | "void" | "cell";
+
+export const getIpuzCellKind = (
+  cell: IPuzGrid[number][number] | undefined,
+  block: string = DEFAULT_BLOCK,
+): IpuzCellKind => {
+  if (cell === null || cell === undefined) return "void";
+  const value = typeof cell === "object" ? cell.cell : cell;
+  if (value === null) return "void";
+  if (value !== undefined && String(value) === block) return "block";
+  return "cell";
+};
+
+const DIVIDERS: { [divided: string]: CellDivider } = {
+  "|": "vertical",
+  "-": "horizontal",
+  "/": "forward",
+  "\\": "backward",
+  "+": "plus",
+  x: "cross",
+};
+
+/**
+ * Converts an ipuz color to CSS. ipuz colors are "RRGGBB" hex strings;
+ * numeric colors are application-defined and ignored.
+ */
+const toCssColor = (color: string | number | undefined): string | undefined => {
+  if (typeof color !== "string") return undefined;
+  const hex = color.replace(/^#/, "");
+  return /^([0-9a-f]{3}|[0-9a-f]{6})$/i.test(hex) ? `#${hex}` : undefined;
+};
+
+/** Looks up a cell's inline or named ipuz style */
+const resolveIpuzStyle = (
+  cell: IPuzGrid[number][number] | undefined,
+  styles: IPuzPuzzle["styles"] = {},
+): IPuzStyle | null => {
+  if (cell === null || typeof cell !== "object" || !cell.style) return null;
+  const style =
+    typeof cell.style === "string" ? styles[cell.style] : cell.style;
+  return style ?? null;
+};
+
+/**
+ * Resolves a puzzle cell's style into the solver's CellStyle. Named styles
+ * are looked up in the puzzle's `styles`. Returns null for unstyled cells.
+ */
+export const getIpuzCellStyle = (
+  cell: IPuzGrid[number][number] | undefined,
+  styles: IPuzPuzzle["styles"] = {},
+): CellStyle | null => {
+  const style = resolveIpuzStyle(cell, styles);
+  if (!style) return null;
+
+  const cellStyle: CellStyle = {};
+  if (style.shapebg) cellStyle.shape = style.shapebg;
+  const backgroundColor = toCssColor(style.color);
+  if (backgroundColor) cellStyle.backgroundColor = backgroundColor;
+  const textColor = toCssColor(style.colortext);
+  if (textColor) cellStyle.textColor = textColor;
+  if (style.highlight) cellStyle.highlight = true;
+  if (style.divided && DIVIDERS[style.divided]) {
+    cellStyle.divided = DIVIDERS[style.divided];
+  }
+  if (style.mark) {
+    const marks = Object.keys(style.mark).reduce(
+      (acc, position) => {
+        const text = style.mark![position as keyof typeof style.mark];
+        if (text) acc[position as keyof typeof acc] = text;
+        return acc;
+      },
+      {} as NonNullable<CellStyle["marks"]>,
+    );
+    if (Object.keys(marks).length > 0) cellStyle.marks = marks;
+  }
+
+  return Object.keys(cellStyle).length > 0 ? cellStyle : null;
+};
+
+/**
+ * Collects the bars declared through cell `barred` styles. A bar on a cell's
+ * top or left edge is stored on the neighbouring cell; bars on the outer
+ * edge of the grid are dropped. Returns null when the grid has no bars.
+ */
+export const getIpuzWalls = (
+  puzzle: IPuzGrid,
+  styles?: IPuzPuzzle["styles"],
+): GridWalls | null => {
+  const rows = puzzle.length;
+  const columns = rows > 0 ? puzzle[0].length : 0;
+  const walls: GridWalls = {
+    right: puzzle.map((row) => row.map(() => false)),
+    bottom: puzzle.map((row) => row.map(() => false)),
+  };
+  let hasWalls = false;
+  const addWall = (edges: boolean[][], row: number, col: number) => {
+    if (row < 0 || col < 0 || edges[row]?.[col] === undefined) return;
+    if (edges === walls.right && col >= columns - 1) return;
+    if (edges === walls.bottom && row >= rows - 1) return;
+    edges[row][col] = true;
+    hasWalls = true;
+  };
+
+  puzzle.forEach((row, r) =>
+    row.forEach((cell, c) => {
+      const barred = resolveIpuzStyle(cell, styles)?.barred;
+      if (typeof barred !== "string") return;
+      barred
+        .toUpperCase()
+        .split("")
+        .forEach((edge) => {
+          if (edge === "T") addWall(walls.bottom, r - 1, c);
+          if (edge === "B") addWall(walls.bottom, r, c);
+          if (edge === "L") addWall(walls.right, r, c - 1);
+          if (edge === "R") addWall(walls.right, r, c);
+        });
+    }),
+  );
+
+  return hasWalls ? walls : null;
+};
+
+/**
+ * Reads the full answer of a solution cell. Entries may hold several letters
+ * (rebus answers) and are returned whole; blocks and missing values give "".
+ */
+export const getIpuzSolutionValue = (
+  cell: IPuzSolutionCell | undefined,
+  block: string = DEFAULT_BLOCK,
+): string => {
+  const value = cell !== null && typeof cell === "object" ? cell.value : cell;
+  if (typeof value !== "string" || value === block) return "";
+  return value;
+};
+
+/**
+ * Reads the letter a puzzle ships pre-filled in a cell, if any. Givens come
+ * from the cell object's `value`, or from a plain string cell that matches
+ * the cell's solution (other strings are labels).
+ */
+export const getIpuzGiven = (
+  cell: IPuzGrid[number][number] | undefined,
+  solutionCell: IPuzSolutionCell | undefined,
+  block: string = DEFAULT_BLOCK,
+  empty: string | number = DEFAULT_EMPTY,
+): string | null => {
+  if (cell === null || cell === undefined) return null;
+  if (typeof cell === "object") {
+    return typeof cell.value === "string" && cell.value.trim()
+      ? cell.value.trim().toUpperCase()
+      : null;
+  }
+  if (
+    typeof cell !== "string" ||
+    cell === block ||
+    cell === String(empty) ||
+    /^\d+$/.test(cell)
+  ) {
+    return null;
+  }
+  const answer = getIpuzSolutionValue(solutionCell, block);
+  return answer && answer.toUpperCase() === cell.toUpperCase()
+    ? cell.toUpperCase()
+    : null;
+};
+
+/**
+ * Where clue numbers come from:
+ * - "auto": the puzzle's own numbers/labels when it has any, otherwise computed
+ * - "puzzle": always the puzzle's own numbers/labels
+ * - "computed": always derived from the block layout, ignoring the puzzle
+ */
+export type ClueNumberingSource = "auto" | "puzzle" | "computed";
+
+export interface ClueNumberingMismatch {
+  row: number;
+  col: number;
+  /** Number declared by the puzzle, 0 when the cell is unnumbered */
+  declared: number;
+  /** Number derived from the block layout, 0 when the cell is unnumbered */
+  computed: number;
+}
+
+export interface ClueNumbering {
+  clueNumbers: number[][];
+  /** Display labels, only present when numbering comes from the puzzle */
+  cellLabels: (string | null)[][] | null;
+  source: "puzzle" | "computed";
+  /** Cells where the puzzle's numbering disagrees with the computed one */
+  mismatches: ClueNumberingMismatch[];
+}
+
+/**
+ * Reads the number or label a puzzle cell declares, if any. Empty and block
+ * cells have no label.
+ */
+export const getIpuzCellLabel = (
+  cell: IPuzGrid[number][number] | undefined,
+  block: string = DEFAULT_BLOCK,
+  empty: string | number = DEFAULT_EMPTY,
+): string | null => {
+  if (cell === null || cell === undefined) return null;
+  const value = typeof cell === "object" ? cell.cell : cell;
+  if (value === null || value === undefined || value === 0) return null;
+  const label = String(value);
+  if (label === "" || label === block || label === String(empty)) return null;
+  return label;
+};
+
+/**
+ * Resolves clue numbering for a puzzle from the chosen source.
+ *
+ * @param ipuzData - The puzzle whose cells may declare numbers or labels
+ * @param grid - Non-playable cells (blocks and voids)
+ * @param source - Which numbering to prefer
+ * @param walls - Bars between cells, for barred grids
+ */
+export const resolveClueNumbering = (
+  ipuzData: IPuzPuzzle,
+  grid: boolean[][],
+  source: ClueNumberingSource = "auto",
+  walls?: GridWalls | null,
+): ClueNumbering => {
+  const rows = grid.length;
+  const columns = rows > 0 ? grid[0].length : 0;
+  const block = ipuzData.block ?? DEFAULT_BLOCK;
+  const empty = ipuzData.empty ?? DEFAULT_EMPTY;
+  const computed = calculateClueNumbers(grid, rows, columns, walls);
+
+  // String cells that hold a given letter are not labels
+  const labels = grid.map((row, r) =>
+    row.map((isBlocked, c) => {
+      const cell = ipuzData.puzzle[r]?.[c];
+      if (isBlocked) return null;
+      if (
+        typeof cell === "string" &&
+        getIpuzGiven(cell, ipuzData.solution?.[r]?.[c], block, empty)
+      ) {
+        return null;
+      }
+      return getIpuzCellLabel(cell, block, empty);
+    }),
+  );
+  const declared = labels.map((row) =>
+    row.map((label) =>
+      label && /^\d+$/.test(label) ? parseInt(label, 10) : 0,
+    ),
+  );
+  const hasDeclared = labels.some((row) => row.some((label) => !!label));
+
+  // Non-numeric labels cannot be compared with computed numbers
+  const mismatches: ClueNumberingMismatch[] = [];
+  if (hasDeclared) {
+    labels.forEach((row, r) =>
+      row.forEach((label, c) => {
+        if (grid[r][c] || (label && declared[r][c] === 0)) return;
+        if (declared[r][c] !== computed[r][c]) {
+          mismatches.push({
+            row: r,
+            col: c,
+            declared: declared[r][c],
+            computed: computed[r][c],
+          });
+        }
+      }),
+    );
+  }
+
+  const usePuzzle = source === "puzzle" || (source === "auto" && hasDeclared);
+  return usePuzzle
+    ? {
+        clueNumbers: declared,
+        cellLabels: labels,
+        source: "puzzle",
+        mismatches,
+      }
+    : {
+        clueNumbers: computed,
+        cellLabels: null,
+        source: "computed",
+        mismatches,
+      };
+};
+
+export interface LoadIpuzOptions {
+  /** Where clue numbers come from, defaults to "auto" */
+  numbering?: ClueNumberingSource;
+}
+
+export interface LoadedPuzzle {
+  state: CrosswordState;
+  solution: string[][];
+  numbering: ClueNumbering;
+}
+
+/**
+ * Builds the initial solver state and the solution matrix for a puzzle.
+ * Honors the puzzle's own `block` and `empty` characters, marks `null`
+ * cells as voids, collects bars, pre-fills givens and resolves clue
+ * numbering and cell styles.
+ */
+export const loadIpuzPuzzle = (
+  ipuzData: IPuzPuzzle,
+  options: LoadIpuzOptions = {},
+): LoadedPuzzle => {
+  const { dimensions, puzzle, solution: ipuzSolution, clues } = ipuzData;
+  const { width, height } = dimensions;
+  const block = ipuzData.block ?? DEFAULT_BLOCK;
+  const empty = ipuzData.empty ?? DEFAULT_EMPTY;
+
+  const kinds = puzzle.map((row) =>
+    row.map((cell) => getIpuzCellKind(cell, block)),
+  );
+
+  // Blocks and voids are both non-playable; voids are tracked separately for rendering
+  const grid = kinds.map((row) => row.map((kind) => kind !== "cell"));
+  const voids = kinds.map((row) => row.map((kind) => kind === "void"));
+
+  const walls = getIpuzWalls(puzzle, ipuzData.styles);
+
+  const numbering = resolveClueNumbering(
+    ipuzData,
+    grid,
+    options.numbering,
+    walls,
+  );
+
+  const cellStyles = puzzle.map((row, r) =>
+    row.map((cell, c) =>
+      voids[r][c] ? null : getIpuzCellStyle(cell, ipuzData.styles),
+    ),
+  );
+  const hasStyles = cellStyles.some((row) => row.some(Boolean));
+
+  // Letters the puzzle ships pre-filled; they start in the grid and are read-only
+  const givenLetters = Array.from({ length: height }, (_, row) =>
+    Array.from({ length: width }, (_, col) =>
+      grid[row]?.[col] !== false
+        ? null
+        : getIpuzGiven(
+            puzzle[row]?.[col],
+            ipuzSolution?.[row]?.[col],
+            block,
+            empty,
+          ),
+    ),
+  );
+  const hasGivens = givenLetters.some((row) => row.some((given) => !!given));
+
+  // Process the solution data
+  const solution: string[][] = Array(height)
+    .fill(0)
+    .map(() => Array(width).fill(""));
+  if (ipuzSolution) {
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        if (!grid[row][col]) {
+          solution[row][col] = getIpuzSolutionValue(
+            ipuzSolution[row]?.[col],
+            block,
+          );
+        }
+      }
+    }
+  }
+
+  // Process clues
+  const processedClues = {
+    Across: {} as { [key: number]: string },
+    Down: {} as { [key: number]: string },
+  };
+
+  if (clues && clues.Across) {
+    clues.Across.forEach(([number, clue]) => {
+      processedClues.Across[number] = clue;
+    });
+  }
+
+  if (clues && clues.Down) {
+    clues.Down.forEach(([number, clue]) => {
+      processedClues.Down[number] = clue;
+    });
+  }
+
+  const state: CrosswordState = {
+    rows: height,
+    columns: width,
+    grid,
+    voids,
+    walls: walls ?? undefined,
+    clueNumbers: numbering.clueNumbers,
+    cellLabels: numbering.cellLabels ?? undefined,
+    cellStyles: hasStyles ? cellStyles : undefined,
+    letters: givenLetters.map((row) => row.map((given) => given ?? "")),
+    givens: hasGivens
+      ? givenLetters.map((row) => row.map((given) => given !== null))
+      : undefined,
+    validatedCells: null,
+    clueOrientation: "across",
+    activeClueNumber: clues.Across[0]?.[0] ?? 1,
+    activeCell: findFirstValidCell(grid),
+    clues: processedClues,
+    clueText: "",
+  };
+
+  return { state, solution, numbering };
+};
@@ -0,0 +1,786 @@
+import {
+  DEFAULT_BLOCK,
+  getIpuzCellKind,
+  getIpuzCellStyle,
+  getIpuzSolutionValue,
+} from "./loader";
+import { CrosswordState } from "./types/crossword";
+import { IPuzGrid, IPuzMetadata, IPuzPuzzle } from "./types/ipuz";
+
+/**
+ * ACROSS LITE (.puz) SUPPORT
+ *
+ * Binary layout reference (all multi-byte values are little-endian):
+ *
+ *   0x00  global checksum           0x2C  width
+ *   0x02  "ACROSS&DOWN\0"           0x2D  height
+ *   0x0E  CIB checksum              0x2E  number of clues
+ *   0x10  masked low checksums      0x30  puzzle type bitmask
+ *   0x14  masked high checksums     0x32  scrambled tag
+ *   0x18  version string "1.3\0"    0x34  solution, player grid, strings
+ *   0x1E  scrambled checksum
+ *
+ * The strings section holds title, author, copyright, one string per clue
+ * (in Across Lite order) and notes, each NUL-terminated. Optional extension
+ * sections (GRBS, RTBL, LTIM, GEXT, ...) follow.
+ */
+
+const FILE_MAGIC = "ACROSS&DOWN";
+const MASK_STRING = "ICHEATED";
+const HEADER_SIZE = 0x34;
+const CIB_OFFSET = 0x2c;
+const CIB_LENGTH = 8;
+const SCRAMBLED_TAG = 0x0004;
+
+export const PUZ_BLOCK = ".";
+export const PUZ_EMPTY = "-";
+
+/** GEXT bit flags describing per-cell markup */
+export const PUZ_GEXT_PREVIOUSLY_INCORRECT = 0x10;
+export const PUZ_GEXT_INCORRECT = 0x20;
+export const PUZ_GEXT_REVEALED = 0x40;
+export const PUZ_GEXT_CIRCLED = 0x80;
+
+export interface PuzTimer {
+  elapsedSeconds: number;
+  running: boolean;
+}
+
+export interface PuzExtensionSection {
+  title: string;
+  data: Uint8Array;
+  checksum: number;
+}
+
+export interface PuzChecksumReport {
+  global: boolean;
+  cib: boolean;
+  maskedLow: boolean;
+  maskedHigh: boolean;
+  extensions: { [title: string]: boolean };
+  valid: boolean;
+}
+
+/**
+ * Raw contents of a .puz file. Grids are row-major arrays of single
+ * characters; rebus entries are resolved separately through `rebus`.
+ */
+export interface PuzFile {
+  version: string;
+  width: number;
+  height: number;
+  puzzleType: number;
+  scrambled: boolean;
+  solution: string[][];
+  playerState: string[][];
+  title: string;
+  author: string;
+  copyright: string;
+  clues: string[];
+  notes: string;
+  /** Rebus solutions per cell (from GRBS + RTBL), null for plain cells */
+  rebus: (string | null)[][] | null;
+  /** Player rebus entries per cell (from RUSR), null for plain cells */
+  userRebus: (string | null)[][] | null;
+  /** GEXT flags per cell, null when the section is absent */
+  markup: number[][] | null;
+  /** LTIM timer state, null when the section is absent */
+  timer: PuzTimer | null;
+  sections: PuzExtensionSection[];
+  checksums: PuzChecksumReport;
+}
+
+export interface ParsePuzOptions {
+  /**
+   * When true, parsing throws if any checksum in the file does not match.
+   * Defaults to false, since many generators write sloppy checksums.
+   */
+  strict?: boolean;
+}
+
+/**
+ * Across Lite checksum over a byte range, continuing from `initial`.
+ */
+export const puzChecksum = (bytes: ArrayLike<number>, initial = 0): number => {
+  let cksum = initial;
+  for (let i = 0; i < bytes.length; i++) {
+    if (cksum & 0x0001) {
+      cksum = (cksum >> 1) + 0x8000;
+    } else {
+      cksum = cksum >> 1;
+    }
+    cksum = (cksum + bytes[i]) & 0xffff;
+  }
+  return cksum;
+};
+
+// Strings in pre-2.0 files are ISO-8859-1; 2.0 files use UTF-8
+const usesUtf8 = (version: string): boolean => parseFloat(version) >= 2;
+
+export const decodePuzString = (bytes: Uint8Array, version: string): string => {
+  if (usesUtf8(version) && typeof TextDecoder !== "undefined") {
+    return new TextDecoder("utf-8").decode(bytes);
+  }
+  let result = "";
+  for (let i = 0; i < bytes.length; i++) {
+    result += String.fromCharCode(bytes[i]);
+  }
+  return result;
+};
+
+export const encodePuzString = (text: string, version: string): number[] => {
+  if (usesUtf8(version) && typeof TextEncoder !== "undefined") {
+    return Array.from(new TextEncoder().encode(text));
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    // Characters outside Latin-1 cannot be represented
+    bytes.push(code <= 0xff ? code : 0x3f);
+  }
+  return bytes;
+};
+
+/**
+ * Checksum over the text portion of the strings section, shared by the
+ * global checksum and the masked "part" checksum.
+ */
+const textChecksum = (
+  file: Pick<
+    PuzFile,
+    "title" | "author" | "copyright" | "clues" | "notes" | "version"
+  >,
+  initial: number,
+): number => {
+  let cksum = initial;
+  const withTerminator = (text: string) => [
+    ...encodePuzString(text, file.version),
+    0,
+  ];
+
+  if (file.title) cksum = puzChecksum(withTerminator(file.title), cksum);
+  if (file.author) cksum = puzChecksum(withTerminator(file.author), cksum);
+  if (file.copyright) {
+    cksum = puzChecksum(withTerminator(file.copyright), cksum);
+  }
+  file.clues.forEach((clue) => {
+    cksum = puzChecksum(encodePuzString(clue, file.version), cksum);
+  });
+  // Notes only contribute from version 1.3 onward
+  if (file.notes && parseFloat(file.version) >= 1.3) {
+    cksum = puzChecksum(withTerminator(file.notes), cksum);
+  }
+  return cksum;
+};
+
+const flattenGrid = (grid: string[][]): number[] =>
+  grid.reduce<number[]>(
+    (bytes, row) => bytes.concat(row.map((ch) => ch.charCodeAt(0) & 0xff)),
+    [],
+  );
+
+/**
+ * Computes every header checksum for the given contents. `cibBytes` are the
+ * eight bytes starting at 0x2C (width, height, clue count, type, scrambled).
+ */
+export const computePuzChecksums = (
+  cibBytes: ArrayLike<number>,
+  file: Pick<
+    PuzFile,
+    | "solution"
+    | "playerState"
+    | "title"
+    | "author"
+    | "copyright"
+    | "clues"
+    | "notes"
+    | "version"
+  >,
+): {
+  global: number;
+  cib: number;
+  maskedLow: number[];
+  maskedHigh: number[];
+} => {
+  const solutionBytes = flattenGrid(file.solution);
+  const gridBytes = flattenGrid(file.playerState);
+
+  const cib = puzChecksum(cibBytes);
+
+  let global = cib;
+  global = puzChecksum(solutionBytes, global);
+  global = puzChecksum(gridBytes, global);
+  global = textChecksum(file, global);
+
+  const parts = [
+    cib,
+    puzChecksum(solutionBytes),
+    puzChecksum(gridBytes),
+    textChecksum(file, 0),
+  ];
+  const maskedLow = parts.map(
+    (part, i) => MASK_STRING.charCodeAt(i) ^ (part & 0xff),
+  );
+  const maskedHigh = parts.map(
+    (part, i) => MASK_STRING.charCodeAt(i + 4) ^ ((part >> 8) & 0xff),
+  );
+
+  return { global, cib, maskedLow, maskedHigh };
+};
+
+const readUint16 = (bytes: Uint8Array, offset: number): number =>
+  bytes[offset] | (bytes[offset + 1] << 8);
+
+const readGrid = (
+  bytes: Uint8Array,
+  offset: number,
+  width: number,
+  height: number,
+): string[][] =>
+  Array.from({ length: height }, (_, row) =>
+    Array.from({ length: width }, (_, col) =>
+      String.fromCharCode(bytes[offset + row * width + col]),
+    ),
+  );
+
+const parseRebusTable = (text: string): { [key: number]: string } => {
+  const table: { [key: number]: string } = {};
+  text.split(";").forEach((entry) => {
+    const separator = entry.indexOf(":");
+    if (separator === -1) return;
+    const key = parseInt(entry.slice(0, separator).trim(), 10);
+    if (!isNaN(key)) {
+      table[key] = entry.slice(separator + 1);
+    }
+  });
+  return table;
+};
+
+/**
+ * Decodes a binary Across Lite file into its raw sections without
+ * interpreting it as an ipuz puzzle.
+ */
+export const decodePuz = (buffer: ArrayBuffer): PuzFile => {
+  const bytes = new Uint8Array(buffer);
+
+  // Some files carry a preamble before the header; locate the magic string
+  let start = -1;
+  for (let i = 2; i + FILE_MAGIC.length <= bytes.length; i++) {
+    if (
+      decodePuzString(bytes.subarray(i, i + FILE_MAGIC.length), "1.3") ===
+      FILE_MAGIC
+    ) {
+      start = i - 2;
+      break;
+    }
+  }
+  if (start < 0 || start + HEADER_SIZE > bytes.length) {
+    throw new Error("Invalid .puz file: missing ACROSS&DOWN header");
+  }
+
+  const data = bytes.subarray(start);
+  const storedGlobal = readUint16(data, 0x00);
+  const storedCib = readUint16(data, 0x0e);
+  const storedLow = Array.from(data.subarray(0x10, 0x14));
+  const storedHigh = Array.from(data.subarray(0x14, 0x18));
+  const version = decodePuzString(data.subarray(0x18, 0x1b), "1.3");
+  const width = data[0x2c];
+  const height = data[0x2d];
+  const clueCount = readUint16(data, 0x2e);
+  const puzzleType = readUint16(data, 0x30);
+  const scrambled = (readUint16(data, 0x32) & SCRAMBLED_TAG) !== 0;
+
+  const cellCount = width * height;
+  let offset = HEADER_SIZE;
+  if (offset + cellCount * 2 > data.length) {
+    throw new Error("Invalid .puz file: grid data is truncated");
+  }
+  const solution = readGrid(data, offset, width, height);
+  offset += cellCount;
+  const playerState = readGrid(data, offset, width, height);
+  offset += cellCount;
+
+  const readString = (): string => {
+    const end = data.indexOf(0, offset);
+    if (end === -1) {
+      throw new Error("Invalid .puz file: unterminated string");
+    }
+    const value = decodePuzString(data.subarray(offset, end), version);
+    offset = end + 1;
+    return value;
+  };
+
+  const title = readString();
+  const author = readString();
+  const copyright = readString();
+  const clues: string[] = [];
+  for (let i = 0; i < clueCount; i++) {
+    clues.push(readString());
+  }
+  // Notes are optional in very old files
+  const notes = offset < data.length ? readString() : "";
+
+  const sections: PuzExtensionSection[] = [];
+  while (offset + 8 <= data.length) {
+    const sectionTitle = decodePuzString(
+      data.subarray(offset, offset + 4),
+      "1.3",
+    );
+    const length = readUint16(data, offset + 4);
+    const checksum = readUint16(data, offset + 6);
+    const sectionStart = offset + 8;
+    if (sectionStart + length > data.length) break;
+    sections.push({
+      title: sectionTitle,
+      data: data.slice(sectionStart, sectionStart + length),
+      checksum,
+    });
+    // Each section is followed by a NUL terminator
+    offset = sectionStart + length + 1;
+  }
+
+  const findSection = (name: string) =>
+    sections.find((section) => section.title === name);
+
+  let rebus: (string | null)[][] | null = null;
+  const grbs = findSection("GRBS");
+  const rtbl = findSection("RTBL");
+  if (grbs && rtbl) {
+    const table = parseRebusTable(decodePuzString(rtbl.data, version));
+    rebus = Array.from({ length: height }, (_, row) =>
+      Array.from({ length: width }, (_, col) => {
+        const key = grbs.data[row * width + col];
+        return key > 0 && table[key - 1] !== undefined ? table[key - 1] : null;
+      }),
+    );
+  }
+
+  let userRebus: (string | null)[][] | null = null;
+  const rusr = findSection("RUSR");
+  if (rusr) {
+    const entries = decodePuzString(rusr.data, version).split("\0");
+    userRebus = Array.from({ length: height }, (_, row) =>
+      Array.from(
+        { length: width },
+        (_, col) => entries[row * width + col] || null,
+      ),
+    );
+  }
+
+  let markup: number[][] | null = null;
+  const gext = findSection("GEXT");
+  if (gext) {
+    markup = Array.from({ length: height }, (_, row) =>
+      Array.from({ length: width }, (_, col) => gext.data[row * width + col]),
+    );
+  }
+
+  let timer: PuzTimer | null = null;
+  const ltim = findSection("LTIM");
+  if (ltim) {
+    const [elapsed, stopped] = decodePuzString(ltim.data, version).split(",");
+    timer = {
+      elapsedSeconds: parseInt(elapsed, 10) || 0,
+      running: stopped !== undefined && stopped.trim() === "0",
+    };
+  }
+
+  const expected = computePuzChecksums(
+    data.subarray(CIB_OFFSET, CIB_OFFSET + CIB_LENGTH),
+    { solution, playerState, title, author, copyright, clues, notes, version },
+  );
+  const extensionChecks: { [title: string]: boolean } = {};
+  sections.forEach((section) => {
+    extensionChecks[section.title] =
+      puzChecksum(section.data) === section.checksum;
+  });
+  const checksums: PuzChecksumReport = {
+    global: expected.global === storedGlobal,
+    cib: expected.cib === storedCib,
+    maskedLow: expected.maskedLow.every((value, i) => value === storedLow[i]),
+    maskedHigh: expected.maskedHigh.every(
+      (value, i) => value === storedHigh[i],
+    ),
+    extensions: extensionChecks,
+    valid: false,
+  };
+  checksums.valid =
+    checksums.global &&
+    checksums.cib &&
+    checksums.maskedLow &&
+    checksums.maskedHigh &&
+    Object.keys(extensionChecks).every((key) => extensionChecks[key]);
+
+  return {
+    version,
+    width,
+    height,
+    puzzleType,
+    scrambled,
+    solution,
+    playerState,
+    title,
+    author,
+    copyright,
+    clues,
+    notes,
+    rebus,
+    userRebus,
+    markup,
+    timer,
+    sections,
+    checksums,
+  };
+};
+
+/**
+ * Verifies all checksums of a .puz file without building a puzzle.
+ */
+export const verifyPuzChecksums = (buffer: ArrayBuffer): PuzChecksumReport =>
+  decodePuz(buffer).checksums;
+
+interface PuzClueEntry {
+  number: number;
+  row: number;
+  col: number;
+  across: boolean;
+  down: boolean;
+}
+
+/**
+ * Walks the grid in reading order and assigns clue numbers the way Across
+ * Lite does. Clue strings in the file follow the same order, with the
+ * across clue before the down clue for cells that start both.
+ */
+const numberPuzGrid = (
+  solution: string[][],
+  width: number,
+  height: number,
+): PuzClueEntry[] => {
+  const isBlock = (row: number, col: number) =>
+    row < 0 ||
+    col < 0 ||
+    row >= height ||
+    col >= width ||
+    solution[row][col] === PUZ_BLOCK;
+
+  const entries: PuzClueEntry[] = [];
+  let number = 1;
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (isBlock(row, col)) continue;
+      const across = isBlock(row, col - 1) && !isBlock(row, col + 1);
+      const down = isBlock(row - 1, col) && !isBlock(row + 1, col);
+      if (across || down) {
+        entries.push({ number: number++, row, col, across, down });
+      }
+    }
+  }
+  return entries;
+};
+
+/**
+ * Parses a binary Across Lite .puz file into an IPuzPuzzle.
+ *
+ * Circled cells (GEXT) become `style.shapebg: "circle"`, rebus answers
+ * (GRBS/RTBL) become multi-letter solution strings and the player's fill is
+ * exposed through the ipuz `saved` grid. Scrambled puzzles are returned
+ * without a solution since it cannot be recovered without the key.
+ */
+export const parsePuz = (
+  buffer: ArrayBuffer,
+  options: ParsePuzOptions = {},
+): IPuzPuzzle => {
+  const file = decodePuz(buffer);
+
+  if (options.strict && !file.checksums.valid) {
+    throw new Error("Invalid .puz file: checksum mismatch");
+  }
+
+  const { width, height } = file;
+  const entries = numberPuzGrid(file.solution, width, height);
+  const expectedClues = entries.reduce(
+    (count, entry) => count + (entry.across ? 1 : 0) + (entry.down ? 1 : 0),
+    0,
+  );
+  if (expectedClues !== file.clues.length) {
+    throw new Error(
+      `Invalid .puz file: grid needs ${expectedClues} clues but file has ${file.clues.length}`,
+    );
+  }
+
+  const cellNumbers: number[][] = Array.from({ length: height }, () =>
+    Array(width).fill(0),
+  );
+  const clues: IPuzPuzzle["clues"] = { Across: [], Down: [] };
+  let clueIndex = 0;
+  entries.forEach((entry) => {
+    cellNumbers[entry.row][entry.col] = entry.number;
+    if (entry.across) {
+      clues.Across.push([entry.number, file.clues[clueIndex++]]);
+    }
+    if (entry.down) {
+      clues.Down.push([entry.number, file.clues[clueIndex++]]);
+    }
+  });
+
+  const puzzle: IPuzGrid = file.solution.map((row, r) =>
+    row.map((ch, c) => {
+      if (ch === PUZ_BLOCK) return "#";
+      const circled =
+        file.markup !== null && (file.markup[r][c] & PUZ_GEXT_CIRCLED) !== 0;
+      const number = cellNumbers[r][c];
+      if (circled) {
+        return { cell: number, style: { shapebg: "circle" } };
+      }
+      return number > 0 ? { cell: number } : 0;
+    }),
+  );
+
+  const solution = file.scrambled
+    ? undefined
+    : file.solution.map((row, r) =>
+        row.map((ch, c) => {
+          if (ch === PUZ_BLOCK) return null;
+          const rebus = file.rebus?.[r][c];
+          return rebus || ch;
+        }),
+      );
+
+  const saved = file.playerState.map((row, r) =>
+    row.map((ch, c) => {
+      if (ch === PUZ_BLOCK) return null;
+      const rebus = file.userRebus?.[r][c];
+      if (rebus) return rebus;
+      return ch === PUZ_EMPTY ? "" : ch;
+    }),
+  );
+
+  const metadata: IPuzMetadata = {};
+  if (file.title) metadata.title = file.title;
+  if (file.author) metadata.author = file.author;
+  if (file.copyright) metadata.copyright = file.copyright;
+  if (file.notes) metadata.notes = file.notes;
+
+  return {
+    version: "http://ipuz.org/v2",
+    kind: ["http://ipuz.org/crossword#1"],
+    dimensions: { width, height },
+    puzzle,
+    clues,
+    solution,
+    saved,
+    metadata,
+  };
+};
+
+/**
+ * Serializes a puzzle, optionally with the solver's progress, into a binary
+ * Across Lite file.
+ *
+ * - Letters come from `state.letters` (falling back to the ipuz `saved`
+ *   grid); multi-letter entries are written to RUSR
+ * - Checked-and-wrong cells from `state.validatedCells`, revealed cells from
+ *   `state.revealed` and circled cells are written to GEXT
+ * - `elapsedSeconds`, when given, is written to LTIM as a stopped timer
+ *
+ * Callers that keep validation outside of `CrosswordState` can pass it in
+ * directly: `serializePuz(puzzle, { ...state, validatedCells }, seconds)`.
+ */
+export const serializePuz = (
+  puzzle: IPuzPuzzle,
+  state?: Pick<
+    CrosswordState,
+    "letters" | "validatedCells" | "revealed"
+  > | null,
+  elapsedSeconds?: number,
+): ArrayBuffer => {
+  const version = "1.3";
+  const { width, height } = puzzle.dimensions;
+  if (width > 255 || height > 255) {
+    throw new Error("Cannot serialize .puz: grid exceeds 255x255");
+  }
+
+  // .puz has no notion of voids, so omitted cells are written as blocks
+  const block = puzzle.block ?? DEFAULT_BLOCK;
+  const isBlock = (row: number, col: number): boolean =>
+    getIpuzCellKind(puzzle.puzzle[row]?.[col], block) !== "cell" ||
+    puzzle.solution?.[row]?.[col] === block;
+
+  const fullSolution: (string | null)[][] = Array.from(
+    { length: height },
+    (_, row) =>
+      Array.from({ length: width }, (_, col) => {
+        if (isBlock(row, col)) return null;
+        const value = getIpuzSolutionValue(
+          puzzle.solution?.[row]?.[col],
+          block,
+        );
+        return value ? value.toUpperCase() : "X";
+      }),
+  );
+  const solution = fullSolution.map((row) =>
+    row.map((value) => (value === null ? PUZ_BLOCK : value.charAt(0))),
+  );
+
+  const fill: (string | null)[][] = fullSolution.map((row, r) =>
+    row.map((value, c) => {
+      if (value === null) return null;
+      const entry = state ? state.letters[r]?.[c] : puzzle.saved?.[r]?.[c];
+      return entry ? entry.toUpperCase() : "";
+    }),
+  );
+  const playerState = fill.map((row) =>
+    row.map((value) =>
+      value === null ? PUZ_BLOCK : value === "" ? PUZ_EMPTY : value.charAt(0),
+    ),
+  );
+
+  // Clue strings in Across Lite order
+  const acrossClues: { [key: number]: string } = {};
+  const downClues: { [key: number]: string } = {};
+  puzzle.clues.Across.forEach(([number, clue]) => (acrossClues[number] = clue));
+  puzzle.clues.Down.forEach(([number, clue]) => (downClues[number] = clue));
+  const clues: string[] = [];
+  numberPuzGrid(solution, width, height).forEach((entry) => {
+    if (entry.across) clues.push(acrossClues[entry.number] || "");
+    if (entry.down) clues.push(downClues[entry.number] || "");
+  });
+
+  const metadata = puzzle.metadata || {};
+  const contents = {
+    solution,
+    playerState,
+    title: metadata.title || "",
+    author: metadata.author || "",
+    copyright: metadata.copyright || "",
+    clues,
+    notes: metadata.notes || "",
+    version,
+  };
+
+  const cib = [
+    width,
+    height,
+    clues.length & 0xff,
+    clues.length >> 8,
+    0x01,
+    0x00,
+    0x00,
+    0x00,
+  ];
+  const checksums = computePuzChecksums(cib, contents);
+
+  const header: number[] = Array(HEADER_SIZE).fill(0);
+  const writeUint16 = (offset: number, value: number) => {
+    header[offset] = value & 0xff;
+    header[offset + 1] = (value >> 8) & 0xff;
+  };
+  writeUint16(0x00, checksums.global);
+  encodePuzString(FILE_MAGIC, version).forEach(
+    (byte, i) => (header[0x02 + i] = byte),
+  );
+  writeUint16(0x0e, checksums.cib);
+  checksums.maskedLow.forEach((byte, i) => (header[0x10 + i] = byte));
+  checksums.maskedHigh.forEach((byte, i) => (header[0x14 + i] = byte));
+  encodePuzString(version, version).forEach(
+    (byte, i) => (header[0x18 + i] = byte),
+  );
+  cib.forEach((byte, i) => (header[CIB_OFFSET + i] = byte));
+
+  const bytes: number[] = header
+    .concat(flattenGrid(solution))
+    .concat(flattenGrid(playerState));
+  [contents.title, contents.author, contents.copyright]
+    .concat(clues)
+    .concat([contents.notes])
+    .forEach((text) => {
+      bytes.push(...encodePuzString(text, version), 0);
+    });
+
+  const writeSection = (title: string, data: number[]) => {
+    const checksum = puzChecksum(data);
+    bytes.push(
+      ...encodePuzString(title, version),
+      data.length & 0xff,
+      (data.length >> 8) & 0xff,
+      checksum & 0xff,
+      (checksum >> 8) & 0xff,
+      ...data,
+      0,
+    );
+  };
+
+  // Rebus solutions: GRBS holds (table key + 1) per cell, RTBL the answers
+  const rebusKeys: { [answer: string]: number } = {};
+  const grbs: number[] = [];
+  fullSolution.forEach((row) =>
+    row.forEach((value) => {
+      if (value === null || value.length <= 1) {
+        grbs.push(0);
+        return;
+      }
+      if (rebusKeys[value] === undefined) {
+        rebusKeys[value] = Object.keys(rebusKeys).length;
+      }
+      grbs.push(rebusKeys[value] + 1);
+    }),
+  );
+  const rebusAnswers = Object.keys(rebusKeys);
+  if (rebusAnswers.length > 0) {
+    writeSection("GRBS", grbs);
+    const table = rebusAnswers
+      .map((answer) => {
+        const key = rebusKeys[answer];
+        return `${key < 10 ? " " : ""}${key}:${answer};`;
+      })
+      .join("");
+    writeSection("RTBL", encodePuzString(table, version));
+  }
+
+  if (elapsedSeconds !== undefined) {
+    writeSection(
+      "LTIM",
+      encodePuzString(`${Math.max(0, Math.floor(elapsedSeconds))},1`, version),
+    );
+  }
+
+  const gext: number[] = [];
+  let hasMarkup = false;
+  fullSolution.forEach((row, r) =>
+    row.forEach((value, c) => {
+      let flags = 0;
+      const cell = puzzle.puzzle[r]?.[c];
+      if (getIpuzCellStyle(cell, puzzle.styles)?.shape === "circle") {
+        flags |= PUZ_GEXT_CIRCLED;
+      }
+      if (value !== null && state?.validatedCells?.[r]?.[c] === false) {
+        flags |= PUZ_GEXT_INCORRECT;
+      }
+      if (value !== null && state?.revealed?.[r]?.[c]) {
+        flags |= PUZ_GEXT_REVEALED;
+      }
+      if (flags) hasMarkup = true;
+      gext.push(flags);
+    }),
+  );
+  if (hasMarkup) {
+    writeSection("GEXT", gext);
+  }
+
+  // Player rebus entries: one NUL-terminated string per cell
+  if (fill.some((row) => row.some((value) => !!value && value.length > 1))) {
+    const rusr: number[] = [];
+    fill.forEach((row) =>
+      row.forEach((value) => {
+        if (value && value.length > 1) {
+          rusr.push(...encodePuzString(value, version));
+        }
+        rusr.push(0);
+      }),
+    );
+    writeSection("RUSR", rusr);
+  }
+
+  return new Uint8Array(bytes).buffer;
+};
@@ -0,0 +1,147 @@
+import { ClueOrientation, CrosswordState } from "./types/crossword";
+import { findClueNumberForCell, getClueNumbers } from "./utils";
+
+/**
+ * SOLVE REPLAY
+ *
+ * A solve is recorded as a log of cell changes and cursor moves, each stamped
+ * with the active solving time in milliseconds. Events are short tuples so
+ * the log stays small as JSON:
+ *
+ * - `[time, "c", row, col, value]` — a cell's letter changed ("" when erased)
+ * - `[time, "m", row, col, "a" | "d"]` — the cursor moved, across or down
+ */
+
+export type ReplayEvent =
+  | [time: number, type: "c", row: number, col: number, value: string]
+  | [time: number, type: "m", row: number, col: number, orientation: "a" | "d"];
+
+export interface SolveRecording {
+  version: 1;
+  rows: number;
+  columns: number;
+  events: ReplayEvent[];
+}
+
+export const createSolveRecording = (
+  crosswordState: Pick<CrosswordState, "rows" | "columns">,
+): SolveRecording => ({
+  version: 1,
+  rows: crosswordState.rows,
+  columns: crosswordState.columns,
+  events: [],
+});
+
+/**
+ * Lists the events that take one state to the next: every changed cell, then
+ * the cursor if it moved or turned.
+ */
+export const getReplayEvents = (
+  prevState: CrosswordState,
+  nextState: CrosswordState,
+  time: number,
+): ReplayEvent[] => {
+  const events: ReplayEvent[] = [];
+  if (prevState.letters !== nextState.letters) {
+    nextState.letters.forEach((row, r) => {
+      if (row === prevState.letters[r]) return;
+      row.forEach((value, c) => {
+        if (value !== (prevState.letters[r]?.[c] ?? "")) {
+          events.push([time, "c", r, c, value]);
+        }
+      });
+    });
+  }
+
+  const { activeCell, clueOrientation } = nextState;
+  if (
+    activeCell &&
+    (activeCell[0] !== prevState.activeCell?.[0] ||
+      activeCell[1] !== prevState.activeCell?.[1] ||
+      clueOrientation !== prevState.clueOrientation)
+  ) {
+    events.push([
+      time,
+      "m",
+      activeCell[0],
+      activeCell[1],
+      clueOrientation === "across" ? "a" : "d",
+    ]);
+  }
+  return events;
+};
+
+/** Length of the recording in milliseconds */
+export const getRecordingDuration = (recording: SolveRecording): number =>
+  recording.events.length > 0
+    ? recording.events[recording.events.length - 1][0]
+    : 0;
+
+/**
+ * Rebuilds the grid as it was `time` milliseconds into the solve, starting
+ * from the puzzle's freshly loaded state.
+ */
+export const getReplayStateAt = (
+  initialState: CrosswordState,
+  recording: SolveRecording,
+  time: number,
+): CrosswordState => {
+  const letters = initialState.letters.map((row) => [...row]);
+  let activeCell = initialState.activeCell;
+  let clueOrientation: ClueOrientation = initialState.clueOrientation;
+
+  for (const event of recording.events) {
+    if (event[0] > time) break;
+    const [, type, row, col, value] = event;
+    if (letters[row]?.[col] === undefined) continue;
+    if (type === "c") {
+      letters[row][col] = value;
+    } else {
+      activeCell = [row, col];
+      clueOrientation = value === "a" ? "across" : "down";
+    }
+  }
+
+  return {
+    ...initialState,
+    letters,
+    activeCell,
+    clueOrientation,
+    activeClueNumber: activeCell
+      ? findClueNumberForCell(
+          activeCell[0],
+          activeCell[1],
+          clueOrientation,
+          initialState.grid,
+          getClueNumbers(initialState),
+          initialState.walls,
+        )
+      : null,
+  };
+};
+
+export const serializeRecording = (recording: SolveRecording): string =>
+  JSON.stringify(recording);
+
+/**
+ * Parses a serialized recording.
+ *
+ * @returns The recording, or null when the JSON is malformed or not a
+ * version 1 recording
+ */
+export const parseRecording = (value: string): SolveRecording | null => {
+  try {
+    const recording = JSON.parse(value) as SolveRecording;
+    if (
+      recording?.version !== 1 ||
+      typeof recording.rows !== "number" ||
+      typeof recording.columns !== "number" ||
+      !Array.isArray(recording.events)
+    ) {
+      return null;
+    }
+    return recording;
+  } catch {
+    return null;
+  }
+};
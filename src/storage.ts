@@ -0,0 +1,141 @@
+import { CrosswordState } from "./types/crossword";
+
+/**
+ * PROGRESS PERSISTENCE
+ *
+ * Solving progress is saved as JSON through a `StorageAdapter`, one entry per
+ * puzzle ID. Adapters may be synchronous (localStorage, memory) or return
+ * promises (IndexedDB, a server API); callers always await them.
+ */
+
+export interface StorageAdapter {
+  get: (key: string) => string | null | Promise<string | null>;
+  set: (key: string, value: string) => void | Promise<void>;
+  remove: (key: string) => void | Promise<void>;
+}
+
+/** Everything needed to pick a solve back up where it was left */
+export interface SavedProgress {
+  version: 1;
+  rows: number;
+  columns: number;
+  letters: string[][];
+  validatedCells: (boolean | undefined)[][] | null;
+  revealed?: boolean[][];
+  pencilled?: boolean[][];
+  activeCell: [number, number] | null;
+  activeClueNumber: number | null;
+  clueOrientation: "across" | "down";
+  elapsedSeconds: number;
+  completed: boolean;
+  usedReveal?: boolean;
+  usedAutocheck?: boolean;
+}
+
+const PROGRESS_KEY_PREFIX = "xword-progress-";
+
+export const getProgressKey = (puzzleId: string): string =>
+  `${PROGRESS_KEY_PREFIX}${puzzleId}`;
+
+/** Adapter backed by `window.localStorage` */
+export const createLocalStorageAdapter = (): StorageAdapter => ({
+  get: (key) => localStorage.getItem(key),
+  set: (key, value) => localStorage.setItem(key, value),
+  remove: (key) => localStorage.removeItem(key),
+});
+
+/** Adapter that keeps entries in memory, for tests and server rendering */
+export const createMemoryStorageAdapter = (
+  initial: Record<string, string> = {},
+): StorageAdapter => {
+  const entries = new Map(Object.entries(initial));
+  return {
+    get: (key) => entries.get(key) ?? null,
+    set: (key, value) => {
+      entries.set(key, value);
+    },
+    remove: (key) => {
+      entries.delete(key);
+    },
+  };
+};
+
+export const createSavedProgress = (
+  crosswordState: CrosswordState,
+  validatedCells: (boolean | undefined)[][] | null,
+  elapsedSeconds: number,
+  completed: boolean,
+): SavedProgress => ({
+  version: 1,
+  rows: crosswordState.rows,
+  columns: crosswordState.columns,
+  letters: crosswordState.letters,
+  validatedCells,
+  revealed: crosswordState.revealed,
+  pencilled: crosswordState.pencilled,
+  activeCell: crosswordState.activeCell,
+  activeClueNumber: crosswordState.activeClueNumber,
+  clueOrientation: crosswordState.clueOrientation,
+  elapsedSeconds,
+  completed,
+  usedReveal: crosswordState.usedReveal,
+  usedAutocheck: crosswordState.usedAutocheck,
+});
+
+/**
+ * Parses a stored entry and checks that it fits the puzzle.
+ *
+ * @returns The saved progress, or null when the entry is missing, malformed
+ * or was saved for a grid of a different size
+ */
+export const parseSavedProgress = (
+  value: string | null,
+  crosswordState: Pick<CrosswordState, "rows" | "columns">,
+): SavedProgress | null => {
+  if (!value) return null;
+  try {
+    const saved = JSON.parse(value) as SavedProgress;
+    if (
+      saved?.version !== 1 ||
+      saved.rows !== crosswordState.rows ||
+      saved.columns !== crosswordState.columns ||
+      !Array.isArray(saved.letters) ||
+      saved.letters.length !== saved.rows
+    ) {
+      return null;
+    }
+    // JSON turns unchecked (undefined) cells into null
+    return {
+      ...saved,
+      validatedCells:
+        saved.validatedCells?.map((row) =>
+          row.map((cell) => (cell === null ? undefined : cell)),
+        ) ?? null,
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Puts saved letters, reveals, pencil flags and cursor back into a freshly
+ * loaded state. Givens keep the puzzle's letter.
+ */
+export const applySavedProgress = (
+  crosswordState: CrosswordState,
+  saved: SavedProgress,
+): CrosswordState => ({
+  ...crosswordState,
+  letters: crosswordState.letters.map((row, r) =>
+    row.map((cell, c) =>
+      crosswordState.givens?.[r]?.[c] ? cell : (saved.letters[r]?.[c] ?? ""),
+    ),
+  ),
+  revealed: saved.revealed,
+  pencilled: saved.pencilled,
+  activeCell: saved.activeCell ?? crosswordState.activeCell,
+  activeClueNumber: saved.activeClueNumber ?? crosswordState.activeClueNumber,
+  clueOrientation: saved.clueOrientation ?? crosswordState.clueOrientation,
+  usedReveal: saved.usedReveal,
+  usedAutocheck: saved.usedAutocheck,
+});
@@ -0,0 +1,97 @@
+/**
+ * THEMING
+ *
+ * Every color and font the components draw with is read from a CSS custom
+ * property, falling back to the built-in light or dark palette. A theme picks
+ * one of the built-in palettes and can override any of the tokens below; the
+ * overrides are set as variables on the solver's container element.
+ */
+
+export interface ThemeTokens {
+  /** Built-in palette the tokens are applied on top of. Defaults to "light" */
+  base?: "light" | "dark";
+  /** Grid and clue text */
+  fontFamily?: string;
+  /** On-screen keyboard */
+  uiFontFamily?: string;
+  /** Behind the grid and clue lists */
+  background?: string;
+  /** Default text color */
+  text?: string;
+  /** Modals and raised panels */
+  surface?: string;
+  cellBackground?: string;
+  cellText?: string;
+  blockColor?: string;
+  /** Lines between cells, the grid border and bars */
+  gridLine?: string;
+  /** The cell under the cursor */
+  highlight?: string;
+  /** The rest of the active word, and the active clue */
+  activeWord?: string;
+  /** Checked letters that are right */
+  correct?: string;
+  /** Checked letters that are wrong */
+  incorrect?: string;
+  /** Circled cells */
+  circle?: string;
+}
+
+/**
+ * "light" and "dark" use the built-in palettes, "system" follows the user's
+ * operating system setting and a token object customizes a palette.
+ */
+export type CrosswordTheme = "light" | "dark" | "system" | ThemeTokens;
+
+type ThemeToken = Exclude<keyof ThemeTokens, "base">;
+
+/** The CSS custom property each token sets */
+export const THEME_VARIABLES: Record<ThemeToken, string> = {
+  fontFamily: "--xword-font-family",
+  uiFontFamily: "--xword-ui-font-family",
+  background: "--xword-background",
+  text: "--xword-text",
+  surface: "--xword-surface",
+  cellBackground: "--xword-cell-background",
+  cellText: "--xword-cell-text",
+  blockColor: "--xword-block-color",
+  gridLine: "--xword-grid-line",
+  highlight: "--xword-highlight",
+  activeWord: "--xword-active-word",
+  correct: "--xword-correct",
+  incorrect: "--xword-incorrect",
+  circle: "--xword-circle",
+};
+
+/**
+ * Lists the CSS custom properties a theme sets, for an element's inline style.
+ * Named themes set none: their palettes live in the stylesheets.
+ */
+export const getThemeVariables = (
+  theme: CrosswordTheme | undefined,
+): Record<string, string> => {
+  const variables: Record<string, string> = {};
+  if (!theme || typeof theme === "string") return variables;
+
+  (Object.keys(THEME_VARIABLES) as ThemeToken[]).forEach((token) => {
+    const value = theme[token];
+    if (value) {
+      variables[THEME_VARIABLES[token]] = value;
+    }
+  });
+  return variables;
+};
+
+/**
+ * Works out whether a theme draws with the dark palette.
+ *
+ * @param prefersDark - Whether the operating system asks for dark mode, for "system"
+ */
+export const isDarkTheme = (
+  theme: CrosswordTheme,
+  prefersDark: boolean,
+): boolean => {
+  if (theme === "system") return prefersDark;
+  if (typeof theme === "string") return theme === "dark";
+  return theme.base === "dark";
+};
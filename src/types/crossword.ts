@@ -1,17 +1,170 @@
+import { IPuzMarkPosition } from "./ipuz";
+
 export type ClueOrientation = "across" | "down";
 
+/** Where a mark sits in its cell; the same positions ipuz uses */
+export type CellMarkPosition = IPuzMarkPosition;
+
+export type CellDivider =
+  | "vertical"
+  | "horizontal"
+  | "forward"
+  | "backward"
+  | "plus"
+  | "cross";
+
+/** Presentation of a single cell, resolved from ipuz cell styles */
+export interface CellStyle {
+  /** Shape drawn behind the letter, e.g. "circle" */
+  shape?: string;
+  /** CSS background color */
+  backgroundColor?: string;
+  /** CSS text color */
+  textColor?: string;
+  highlight?: boolean;
+  divided?: CellDivider;
+  marks?: Partial<Record<CellMarkPosition, string>>;
+}
+
+/**
+ * Bars between cells, as used by barred (British-style) grids. Each cell
+ * records the edges on its right and bottom; the left and top edges are the
+ * neighbouring cells' right and bottom edges. A bar ends a word just like a
+ * block does.
+ */
+export interface GridWalls {
+  right: boolean[][];
+  bottom: boolean[][];
+}
+
+/** Extra information about a finished solve, passed to `onComplete` */
+export interface CompletionDetails {
+  /** Whether any answers were revealed, e.g. to keep the solve off leaderboards */
+  usedReveal: boolean;
+  /** Number of cells that were revealed */
+  revealedCells: number;
+  /** Whether autocheck was turned on at any point during the solve */
+  usedAutocheck: boolean;
+  /** Per-clue timing, checks and erasures */
+  stats: SolveStats;
+}
+
+/** A stretch of active solving time; `end` is null while the timer runs */
+export interface TimerInterval {
+  start: number;
+  end: number | null;
+}
+
+/** Where a returning solver's timer picks up, as returned from `onStart` */
+export interface TimerStart {
+  /** Active solving time already spent on the puzzle */
+  elapsedSeconds: number;
+}
+
+/** Why the timer was paused */
+export type PauseReason = "user" | "hidden" | "inactive";
+
+/** How one clue went; times are elapsed solving seconds */
+export interface ClueStats {
+  number: number;
+  orientation: ClueOrientation;
+  /** When the clue first became active; null if the solver never went to it */
+  firstEnteredAt: number | null;
+  /** When the answer was last completely filled; null while it has empty cells */
+  completedAt: number | null;
+  /** How many times the clue was checked */
+  checks: number;
+  /** How many edits erased letters from the answer */
+  erasures: number;
+}
+
+/** Per-clue timing and effort for a solve, one entry per clue */
+export interface SolveStats {
+  totalSeconds: number;
+  clues: ClueStats[];
+}
+
+/** When a solver event happened, passed last to every event callback */
+export interface SolverEventInfo {
+  /** Milliseconds since the epoch, as from `Date.now()` */
+  timestamp: number;
+  /** Active solving time when the event happened */
+  elapsedSeconds: number;
+}
+
+/** The outcome of checking one cell */
+export interface CellCheckResult {
+  row: number;
+  col: number;
+  correct: boolean;
+}
+
+/** How far along a solve is, as reported by the solver's ref handle */
+export interface CrosswordProgress {
+  /** Playable cells that hold a letter */
+  filledCells: number;
+  /** All playable cells */
+  totalCells: number;
+  /** Filled cells that match the solution; null when there is no solution */
+  correctCells: number | null;
+  elapsedSeconds: number;
+  isComplete: boolean;
+}
+
 export interface CrosswordState {
   rows: number;
   columns: number;
+  /** Non-playable cells: true for blocks and voids alike */
   grid: boolean[][];
+  /** Omitted (ipuz `null`) cells, which are not drawn at all */
+  voids?: boolean[][];
+  /** Bars between cells that act as word boundaries */
+  walls?: GridWalls;
   letters: string[][];
+  /** Cells pre-filled by the puzzle, which cannot be edited */
+  givens?: boolean[][];
+  /** Cells whose answer was revealed; locked like givens */
+  revealed?: boolean[][];
+  /** Letters entered in pencil mode, drawn as tentative guesses */
+  pencilled?: boolean[][];
+  /** Whether new letters are entered in pencil */
+  pencilMode?: boolean;
+  /** Set once any answer has been revealed, even if the reveal was undone */
+  usedReveal?: boolean;
+  /** Set once autocheck has been on during the solve */
+  usedAutocheck?: boolean;
+  /** Resolved clue numbering (0 = unnumbered); derived from `grid` when omitted */
+  clueNumbers?: number[][];
+  /** Labels drawn in the corner of each cell, when they differ from the numbering */
+  cellLabels?: (string | null)[][];
+  /** Per-cell presentation (circles, colors, dividers, marks), null when unstyled */
+  cellStyles?: (CellStyle | null)[][];
   validatedCells: (boolean | undefined)[][] | null;
   clueOrientation: "across" | "down";
   activeClueNumber: number | null;
   activeCell: [number, number] | null;
+  /** Text being typed into the active cell in rebus mode; null/undefined outside it */
+  rebusEntry?: string | null;
   clues: {
     Across: { [key: number]: string };
     Down: { [key: number]: string };
   };
   clueText: string;
 }
+
+/** The grid contents and cursor at one point in the undo history */
+export interface HistorySnapshot {
+  letters: string[][];
+  validatedCells: (boolean | undefined)[][] | null;
+  revealed?: boolean[][];
+  pencilled?: boolean[][];
+  activeCell: [number, number] | null;
+  activeClueNumber: number | null;
+  clueOrientation: "across" | "down";
+}
+
+/** One undoable edit: the snapshots taken just before and just after it */
+export interface HistoryEntry {
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+}
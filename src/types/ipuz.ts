@@ -3,11 +3,39 @@ export interface IPuzDimensions {
   height: number;
 }
 
+export type IPuzMarkPosition =
+  | "TL"
+  | "T"
+  | "TR"
+  | "L"
+  | "C"
+  | "R"
+  | "BL"
+  | "B"
+  | "BR";
+
+export interface IPuzStyle {
+  /** Shape drawn behind the letter, e.g. "circle" */
+  shapebg?: string;
+  /** Whether the cell is highlighted */
+  highlight?: boolean;
+  /** Background color as "RRGGBB" hex */
+  color?: string | number;
+  /** Text color as "RRGGBB" hex */
+  colortext?: string | number;
+  /** Divider drawn across the cell: "|", "-", "/", "\\", "+" or "x" */
+  divided?: string;
+  /** Small labels in the corners and edges of the cell */
+  mark?: Partial<Record<IPuzMarkPosition, string>>;
+  /** Bars on the cell's edges, any combination of "T", "R", "B" and "L" */
+  barred?: string;
+}
+
 export interface IPuzCell {
-  cell?: number;
-  style?: {
-    shapebg?: string;
-  };
+  /** Clue number, label, block character, or null for an omitted cell */
+  cell?: number | string | null;
+  /** Inline style, or the name of a style in the puzzle's `styles` */
+  style?: IPuzStyle | string;
   value?: string;
 }
 
@@ -35,12 +63,26 @@ export interface IPuzMetadata {
   notes?: string;
 }
 
+/**
+ * A solution entry: a letter or multi-letter rebus string, an object with a
+ * `value`, the block character, or null
+ */
+export type IPuzSolutionCell = string | null | { value?: string };
+
 export interface IPuzPuzzle {
   version: string;
   kind: string[];
   dimensions: IPuzDimensions;
+  /** Character used for blocks in `puzzle` and `solution`, defaults to "#" */
+  block?: string;
+  /** Value used for empty, unnumbered cells in `puzzle`, defaults to 0 */
+  empty?: string | number;
   puzzle: IPuzGrid;
+  /** Named styles that cells can reference by name */
+  styles?: { [name: string]: IPuzStyle };
   clues: IPuzClues;
-  solution?: (string | null)[][];
+  solution?: IPuzSolutionCell[][];
+  /** The solver's saved progress, same shape as `solution` */
+  saved?: (string | null)[][];
   metadata?: IPuzMetadata;
 }
@@ -1,7 +1,48 @@
+import {
+  CrosswordProgress,
+  CrosswordState,
+  GridWalls,
+  ClueOrientation,
+  ClueStats,
+  HistorySnapshot,
+  SolveStats,
+  TimerInterval,
+} from "./types/crossword";
+
+/**
+ * Whether a bar separates a cell from the next cell in the given orientation
+ * (to its right for across, below it for down).
+ */
+export const hasWallAfter = (
+  walls: GridWalls | null | undefined,
+  row: number,
+  col: number,
+  orientation: "across" | "down",
+): boolean =>
+  !!walls &&
+  (orientation === "across"
+    ? !!walls.right[row]?.[col]
+    : !!walls.bottom[row]?.[col]);
+
+/**
+ * Whether a bar separates a cell from the previous cell in the given
+ * orientation (to its left for across, above it for down).
+ */
+export const hasWallBefore = (
+  walls: GridWalls | null | undefined,
+  row: number,
+  col: number,
+  orientation: "across" | "down",
+): boolean =>
+  orientation === "across"
+    ? col > 0 && hasWallAfter(walls, row, col - 1, orientation)
+    : row > 0 && hasWallAfter(walls, row - 1, col, orientation);
+
 export const calculateClueNumbers = (
   grid: boolean[][],
   rows: number,
   columns: number,
+  walls?: GridWalls | null,
 ): number[][] => {
   const clueNumbers: number[][] = Array(rows)
     .fill(0)
@@ -16,8 +57,25 @@ export const calculateClueNumbers = (
 
   const shouldGetNumber = (row: number, col: number): boolean => {
     if (!isWhiteCell(row, col)) return false;
-    const startsHorizontal = col === 0 || !isWhiteCell(row, col - 1);
-    const startsVertical = row === 0 || !isWhiteCell(row - 1, col);
+    const startsHorizontal =
+      col === 0 ||
+      !isWhiteCell(row, col - 1) ||
+      hasWallBefore(walls, row, col, "across");
+    const startsVertical =
+      row === 0 ||
+      !isWhiteCell(row - 1, col) ||
+      hasWallBefore(walls, row, col, "down");
+    // Barred grids only number cells that start a word of two or more letters
+    if (walls) {
+      const continuesHorizontal =
+        isWhiteCell(row, col + 1) && !hasWallAfter(walls, row, col, "across");
+      const continuesVertical =
+        isWhiteCell(row + 1, col) && !hasWallAfter(walls, row, col, "down");
+      return (
+        (startsHorizontal && continuesHorizontal) ||
+        (startsVertical && continuesVertical)
+      );
+    }
     return startsHorizontal || startsVertical;
   };
 
@@ -32,24 +90,69 @@ export const calculateClueNumbers = (
   return clueNumbers;
 };
 
+/**
+ * Returns the clue numbering for a crossword state. States loaded from ipuz
+ * carry their resolved numbering (which may come from the puzzle itself);
+ * otherwise it is derived from the block and bar layout.
+ */
+export const getClueNumbers = (
+  crosswordState: Pick<
+    CrosswordState,
+    "grid" | "rows" | "columns" | "clueNumbers" | "walls"
+  >,
+): number[][] =>
+  crosswordState.clueNumbers ??
+  calculateClueNumbers(
+    crosswordState.grid,
+    crosswordState.rows,
+    crosswordState.columns,
+    crosswordState.walls,
+  );
+
 export const findWordStart = (
   grid: boolean[][],
   row: number,
   col: number,
   isHorizontal: boolean,
+  walls?: GridWalls | null,
 ): [number, number] => {
   if (isHorizontal) {
-    while (col > 0 && !grid[row][col - 1]) {
+    while (
+      col > 0 &&
+      !grid[row][col - 1] &&
+      !hasWallBefore(walls, row, col, "across")
+    ) {
       col--;
     }
   } else {
-    while (row > 0 && !grid[row - 1][col]) {
+    while (
+      row > 0 &&
+      !grid[row - 1][col] &&
+      !hasWallBefore(walls, row, col, "down")
+    ) {
       row--;
     }
   }
   return [row, col];
 };
 
+/**
+ * Checks whether a numbered cell starts a clue in the given orientation. In
+ * barred grids a cell only starts a clue when the word continues past it.
+ */
+const startsClue = (
+  grid: boolean[][],
+  row: number,
+  col: number,
+  orientation: "across" | "down",
+  rows: number,
+  columns: number,
+  walls?: GridWalls | null,
+): boolean =>
+  isStartOfWord(grid, row, col, orientation, walls) &&
+  (!walls ||
+    !isLastCellInWord(grid, row, col, orientation, rows, columns, walls));
+
 // Navigation utilities
 /**
  * ENHANCED ARROW NAVIGATION - JUMP THROUGH BLACK SQUARES
@@ -64,7 +167,7 @@ export const findWordStart = (
  * 3. Return the first white square found before reaching the grid edge
  * 4. Return null only if we reach the edge without finding any white squares
  *
- * @param grid - The crossword grid (true = black cell, false = white cell)
+ * @param grid - The crossword grid (true = block or void, false = white cell)
  * @param row - Starting row position
  * @param col - Starting column position
  * @param direction - Direction to search ("left", "right", "up", "down")
@@ -139,6 +242,7 @@ export const findNextClueNumber = (
   clueNumbers: number[][],
   rows: number,
   columns: number,
+  walls?: GridWalls | null,
 ): number | null => {
   // Get all clue numbers in the current orientation
   const clueNumberList: number[] = [];
@@ -147,17 +251,12 @@ export const findNextClueNumber = (
   for (let row = 0; row < rows; row++) {
     for (let col = 0; col < columns; col++) {
       const number = clueNumbers[row][col];
-      if (number > 0) {
-        // Check if this cell starts a word in the current orientation
-        if (orientation === "across") {
-          if (col === 0 || grid[row][col - 1]) {
-            clueNumberList.push(number);
-          }
-        } else {
-          if (row === 0 || grid[row - 1][col]) {
-            clueNumberList.push(number);
-          }
-        }
+      // Check if this cell starts a word in the current orientation
+      if (
+        number > 0 &&
+        startsClue(grid, row, col, orientation, rows, columns, walls)
+      ) {
+        clueNumberList.push(number);
       }
     }
   }
@@ -194,6 +293,7 @@ export const findPreviousClueNumber = (
   clueNumbers: number[][],
   rows: number,
   columns: number,
+  walls?: GridWalls | null,
 ): number | null => {
   // Get all clue numbers in the current orientation
   const clueNumberList: number[] = [];
@@ -202,17 +302,12 @@ export const findPreviousClueNumber = (
   for (let row = 0; row < rows; row++) {
     for (let col = 0; col < columns; col++) {
       const number = clueNumbers[row][col];
-      if (number > 0) {
-        // Check if this cell starts a word in the current orientation
-        if (orientation === "across") {
-          if (col === 0 || grid[row][col - 1]) {
-            clueNumberList.push(number);
-          }
-        } else {
-          if (row === 0 || grid[row - 1][col]) {
-            clueNumberList.push(number);
-          }
-        }
+      // Check if this cell starts a word in the current orientation
+      if (
+        number > 0 &&
+        startsClue(grid, row, col, orientation, rows, columns, walls)
+      ) {
+        clueNumberList.push(number);
       }
     }
   }
@@ -254,6 +349,7 @@ export const findFirstEmptyCellInClue = (
   clueNumbers: number[][],
   rows: number,
   columns: number,
+  walls?: GridWalls | null,
 ): [number, number] | null => {
   const startCell = findClueStartCell(clueNumber, clueNumbers, rows, columns);
   if (!startCell) return null;
@@ -270,6 +366,9 @@ export const findFirstEmptyCellInClue = (
       if (!letters[startRow][col]) {
         return [startRow, col];
       }
+
+      // Stop at a bar
+      if (hasWallAfter(walls, startRow, col, "across")) break;
     }
   } else {
     // For down clues, check cells from top to bottom
@@ -281,6 +380,9 @@ export const findFirstEmptyCellInClue = (
       if (!letters[row][startCol]) {
         return [row, startCol];
       }
+
+      // Stop at a bar
+      if (hasWallAfter(walls, row, startCol, "down")) break;
     }
   }
 
@@ -300,6 +402,7 @@ export const findNextNumericClue = (
   clueNumbers: number[][],
   rows: number,
   columns: number,
+  walls?: GridWalls | null,
 ): {
   clueNumber: number;
   orientation: "across" | "down";
@@ -313,6 +416,7 @@ export const findNextNumericClue = (
     clueNumbers,
     rows,
     columns,
+    walls,
   );
 
   // Keep searching for a clue with empty cells in the current orientation
@@ -330,6 +434,7 @@ export const findNextNumericClue = (
       clueNumbers,
       rows,
       columns,
+      walls,
     );
     if (cell) {
       return {
@@ -346,6 +451,7 @@ export const findNextNumericClue = (
       clueNumbers,
       rows,
       columns,
+      walls,
     );
   }
 
@@ -360,6 +466,7 @@ export const findNextNumericClue = (
     clueNumbers,
     rows,
     columns,
+    walls,
   );
 
   visitedClues.clear();
@@ -376,6 +483,7 @@ export const findNextNumericClue = (
       clueNumbers,
       rows,
       columns,
+      walls,
     );
     if (cell) {
       return {
@@ -392,6 +500,7 @@ export const findNextNumericClue = (
       clueNumbers,
       rows,
       columns,
+      walls,
     );
   }
 
@@ -409,6 +518,7 @@ export const findPreviousNumericClue = (
   clueNumbers: number[][],
   rows: number,
   columns: number,
+  walls?: GridWalls | null,
 ): {
   clueNumber: number;
   orientation: "across" | "down";
@@ -422,6 +532,7 @@ export const findPreviousNumericClue = (
     clueNumbers,
     rows,
     columns,
+    walls,
   );
 
   if (prevInSameOrientation !== null) {
@@ -439,12 +550,32 @@ export const findPreviousNumericClue = (
 
       if (currentOrientation === "across") {
         // Move to the last cell of the across clue
-        while (lastCol + 1 < columns && !grid[lastRow][lastCol + 1]) {
+        while (
+          !isLastCellInWord(
+            grid,
+            lastRow,
+            lastCol,
+            "across",
+            rows,
+            columns,
+            walls,
+          )
+        ) {
           lastCol++;
         }
       } else {
         // Move to the last cell of the down clue
-        while (lastRow + 1 < rows && !grid[lastRow + 1][lastCol]) {
+        while (
+          !isLastCellInWord(
+            grid,
+            lastRow,
+            lastCol,
+            "down",
+            rows,
+            columns,
+            walls,
+          )
+        ) {
           lastRow++;
         }
       }
@@ -468,6 +599,7 @@ export const findPreviousNumericClue = (
     clueNumbers,
     rows,
     columns,
+    walls,
   );
 
   if (lastInNewOrientation !== null) {
@@ -484,12 +616,32 @@ export const findPreviousNumericClue = (
 
       if (newOrientation === "across") {
         // Move to the last cell of the across clue
-        while (lastCol + 1 < columns && !grid[lastRow][lastCol + 1]) {
+        while (
+          !isLastCellInWord(
+            grid,
+            lastRow,
+            lastCol,
+            "across",
+            rows,
+            columns,
+            walls,
+          )
+        ) {
           lastCol++;
         }
       } else {
         // Move to the last cell of the down clue
-        while (lastRow + 1 < rows && !grid[lastRow + 1][lastCol]) {
+        while (
+          !isLastCellInWord(
+            grid,
+            lastRow,
+            lastCol,
+            "down",
+            rows,
+            columns,
+            walls,
+          )
+        ) {
           lastRow++;
         }
       }
@@ -511,21 +663,32 @@ export const findClueNumberForCell = (
   orientation: "across" | "down",
   grid: boolean[][],
   clueNumbers: number[][],
+  walls?: GridWalls | null,
 ): number | null => {
-  // Find the start of the word in the given orientation
-  let startRow = row;
-  let startCol = col;
+  // Find the start of the word in the given orientation, stopping at a
+  // black cell, a bar or the edge
+  const [startRow, startCol] = findWordStart(
+    grid,
+    row,
+    col,
+    orientation === "across",
+    walls,
+  );
 
-  if (orientation === "across") {
-    // For across clues, move left until we hit a black cell or the edge
-    while (startCol > 0 && !grid[startRow][startCol - 1]) {
-      startCol--;
-    }
-  } else {
-    // For down clues, move up until we hit a black cell or the edge
-    while (startRow > 0 && !grid[startRow - 1][startCol]) {
-      startRow--;
-    }
+  // Single cells between bars are not words in barred grids
+  if (
+    walls &&
+    !startsClue(
+      grid,
+      startRow,
+      startCol,
+      orientation,
+      grid.length,
+      grid[0].length,
+      walls,
+    )
+  ) {
+    return null;
   }
 
   // Return the clue number at the start of the word
@@ -541,6 +704,7 @@ export const isPartOfActiveClue = (
   clueNumbers: number[][],
   rows: number,
   columns: number,
+  walls?: GridWalls | null,
 ): boolean => {
   if (!activeClueNumber || grid[row][col]) return false;
 
@@ -557,21 +721,23 @@ export const isPartOfActiveClue = (
 
   if (clueOrientation === "across") {
     // Check if cell is in the same row as the clue start and to the right of it
-    // Stop if we encounter a black cell
+    // Stop if we encounter a black cell or a bar
     if (row === startRow && col >= startCol) {
       // Check all cells from start to current position for black cells
       for (let c = startCol; c <= col; c++) {
         if (grid[row][c]) return false;
+        if (c < col && hasWallAfter(walls, row, c, "across")) return false;
       }
       return true;
     }
   } else {
     // Check if cell is in the same column as the clue start and below it
-    // Stop if we encounter a black cell
+    // Stop if we encounter a black cell or a bar
     if (col === startCol && row >= startRow) {
       // Check all cells from start to current position for black cells
       for (let r = startRow; r <= row; r++) {
         if (grid[r][col]) return false;
+        if (r < row && hasWallAfter(walls, r, col, "down")) return false;
       }
       return true;
     }
@@ -598,15 +764,24 @@ export const findNextCellInWord = (
   orientation: "across" | "down",
   rows: number,
   columns: number,
+  walls?: GridWalls | null,
 ): [number, number] | null => {
   if (orientation === "across") {
     // For across clues, move to the right
-    if (col + 1 < columns && !grid[row][col + 1]) {
+    if (
+      col + 1 < columns &&
+      !grid[row][col + 1] &&
+      !hasWallAfter(walls, row, col, orientation)
+    ) {
       return [row, col + 1];
     }
   } else {
     // For down clues, move down
-    if (row + 1 < rows && !grid[row + 1][col]) {
+    if (
+      row + 1 < rows &&
+      !grid[row + 1][col] &&
+      !hasWallAfter(walls, row, col, orientation)
+    ) {
       return [row + 1, col];
     }
   }
@@ -615,20 +790,78 @@ export const findNextCellInWord = (
   return null;
 };
 
+/**
+ * Cells the solver cannot edit: letters pre-filled by the puzzle (givens)
+ * and cells whose answer was revealed. Returns null when there are none.
+ */
+export const getLockedCells = (
+  crosswordState: Pick<CrosswordState, "givens" | "revealed">,
+): boolean[][] | null => {
+  const { givens, revealed } = crosswordState;
+  if (!givens || !revealed) return givens ?? revealed ?? null;
+  return givens.map((row, r) => row.map((given, c) => given || revealed[r][c]));
+};
+
+/**
+ * Finds the next cell in the word that the solver can edit, skipping over
+ * locked cells (see getLockedCells).
+ */
+export const findNextEditableCellInWord = (
+  grid: boolean[][],
+  row: number,
+  col: number,
+  orientation: "across" | "down",
+  rows: number,
+  columns: number,
+  walls?: GridWalls | null,
+  lockedCells?: boolean[][] | null,
+): [number, number] | null => {
+  let next = findNextCellInWord(
+    grid,
+    row,
+    col,
+    orientation,
+    rows,
+    columns,
+    walls,
+  );
+  while (next && lockedCells?.[next[0]]?.[next[1]]) {
+    next = findNextCellInWord(
+      grid,
+      next[0],
+      next[1],
+      orientation,
+      rows,
+      columns,
+      walls,
+    );
+  }
+  return next;
+};
+
 export const findPreviousCellInWord = (
   grid: boolean[][],
   row: number,
   col: number,
   orientation: "across" | "down",
+  walls?: GridWalls | null,
 ): [number, number] | null => {
   if (orientation === "across") {
     // For across clues, move to the left
-    if (col > 0 && !grid[row][col - 1]) {
+    if (
+      col > 0 &&
+      !grid[row][col - 1] &&
+      !hasWallBefore(walls, row, col, orientation)
+    ) {
       return [row, col - 1];
     }
   } else {
     // For down clues, move up
-    if (row > 0 && !grid[row - 1][col]) {
+    if (
+      row > 0 &&
+      !grid[row - 1][col] &&
+      !hasWallBefore(walls, row, col, orientation)
+    ) {
       return [row - 1, col];
     }
   }
@@ -643,12 +876,13 @@ export const findPreviousCellInWord = (
  * - If NOT the last cell: advance to next cell in same word
  * - If IS the last cell: jump to next clue
  *
- * @param grid - The crossword grid (true = black cell, false = white cell)
+ * @param grid - The crossword grid (true = block or void, false = white cell)
  * @param row - The row index of the cell to check
  * @param col - The column index of the cell to check
  * @param orientation - Whether to check "across" or "down" direction
  * @param rows - Total number of rows in the grid
  * @param columns - Total number of columns in the grid
+ * @param walls - Bars between cells, for barred grids
  * @returns true if this is the last cell in the word, false otherwise
  */
 export const isLastCellInWord = (
@@ -658,13 +892,22 @@ export const isLastCellInWord = (
   orientation: "across" | "down",
   rows: number,
   columns: number,
+  walls?: GridWalls | null,
 ): boolean => {
   if (orientation === "across") {
-    // For across clues, check if the next cell to the right is a black cell or edge
-    return col + 1 >= columns || grid[row][col + 1];
+    // For across clues, check if the next cell to the right is a black cell, bar or edge
+    return (
+      col + 1 >= columns ||
+      grid[row][col + 1] ||
+      hasWallAfter(walls, row, col, orientation)
+    );
   } else {
-    // For down clues, check if the next cell below is a black cell or edge
-    return row + 1 >= rows || grid[row + 1][col];
+    // For down clues, check if the next cell below is a black cell, bar or edge
+    return (
+      row + 1 >= rows ||
+      grid[row + 1][col] ||
+      hasWallAfter(walls, row, col, orientation)
+    );
   }
 };
 
@@ -688,6 +931,7 @@ export const navigateToClueAndCell = ({
     activeClueNumber: clueNumber,
     clueOrientation: orientation,
     activeCell: cell,
+    rebusEntry: null,
   };
   setCrosswordState(newState);
 };
@@ -725,11 +969,7 @@ export const handleNextClue = ({
     clueNumber: number,
     orientation: "across" | "down",
   ): boolean => {
-    const clueNumbers = calculateClueNumbers(
-      crosswordState.grid,
-      crosswordState.rows,
-      crosswordState.columns,
-    );
+    const clueNumbers = getClueNumbers(crosswordState);
     const startCell = findClueStartCell(
       clueNumber,
       clueNumbers,
@@ -743,11 +983,13 @@ export const handleNextClue = ({
       for (let c = startCol; c < crosswordState.columns; c++) {
         if (crosswordState.grid[startRow][c]) break; // Stop at black cell
         if (!crosswordState.letters[startRow][c]) return true;
+        if (hasWallAfter(crosswordState.walls, startRow, c, orientation)) break;
       }
     } else {
       for (let r = startRow; r < crosswordState.rows; r++) {
         if (crosswordState.grid[r][startCol]) break; // Stop at black cell
         if (!crosswordState.letters[r][startCol]) return true;
+        if (hasWallAfter(crosswordState.walls, r, startCol, orientation)) break;
       }
     }
     return false;
@@ -758,11 +1000,7 @@ export const handleNextClue = ({
     startClueNumber: number | null,
     orientation: "across" | "down",
   ): number | null => {
-    const clueNumbers = calculateClueNumbers(
-      crosswordState.grid,
-      crosswordState.rows,
-      crosswordState.columns,
-    );
+    const clueNumbers = getClueNumbers(crosswordState);
     let nextClueNumber = findNextClueNumber(
       startClueNumber,
       orientation,
@@ -770,6 +1008,7 @@ export const handleNextClue = ({
       clueNumbers,
       crosswordState.rows,
       crosswordState.columns,
+      crosswordState.walls,
     );
 
     // Keep track of visited clues to prevent infinite loops
@@ -785,6 +1024,7 @@ export const handleNextClue = ({
         clueNumbers,
         crosswordState.rows,
         crosswordState.columns,
+        crosswordState.walls,
       );
     }
     return null;
@@ -804,11 +1044,7 @@ export const handleNextClue = ({
 
     if (nextClueNumber) {
       // Found a clue with empty cells in the other orientation
-      const clueNumbers = calculateClueNumbers(
-        crosswordState.grid,
-        crosswordState.rows,
-        crosswordState.columns,
-      );
+      const clueNumbers = getClueNumbers(crosswordState);
       const startCell = findClueStartCell(
         nextClueNumber,
         clueNumbers,
@@ -823,6 +1059,7 @@ export const handleNextClue = ({
         clueNumbers,
         crosswordState.rows,
         crosswordState.columns,
+        crosswordState.walls,
       );
       navigateToClueAndCell({
         clueNumber: nextClueNumber,
@@ -837,11 +1074,7 @@ export const handleNextClue = ({
 
   // If we found a clue with empty cells in the current orientation
   if (nextClueNumber) {
-    const clueNumbers = calculateClueNumbers(
-      crosswordState.grid,
-      crosswordState.rows,
-      crosswordState.columns,
-    );
+    const clueNumbers = getClueNumbers(crosswordState);
     const startCell = findClueStartCell(
       nextClueNumber,
       clueNumbers,
@@ -856,6 +1089,7 @@ export const handleNextClue = ({
       clueNumbers,
       crosswordState.rows,
       crosswordState.columns,
+      crosswordState.walls,
     );
     navigateToClueAndCell({
       clueNumber: nextClueNumber,
@@ -868,11 +1102,7 @@ export const handleNextClue = ({
   }
 
   // If no clues with empty cells found in either orientation, fall back to normal cycling
-  const clueNumbers = calculateClueNumbers(
-    crosswordState.grid,
-    crosswordState.rows,
-    crosswordState.columns,
-  );
+  const clueNumbers = getClueNumbers(crosswordState);
   nextClueNumber = findNextClueNumber(
     currentClueNumber,
     currentOrientation,
@@ -880,6 +1110,7 @@ export const handleNextClue = ({
     clueNumbers,
     crosswordState.rows,
     crosswordState.columns,
+    crosswordState.walls,
   );
 
   if (nextClueNumber) {
@@ -899,6 +1130,7 @@ export const handleNextClue = ({
       clueNumbers,
       crosswordState.rows,
       crosswordState.columns,
+      crosswordState.walls,
     );
     // Navigate to the next clue
     navigateToClueAndCell({
@@ -918,6 +1150,7 @@ export const handleNextClue = ({
       clueNumbers,
       crosswordState.rows,
       crosswordState.columns,
+      crosswordState.walls,
     );
 
     if (firstClueNumber) {
@@ -935,6 +1168,7 @@ export const handleNextClue = ({
         clueNumbers,
         crosswordState.rows,
         crosswordState.columns,
+        crosswordState.walls,
       );
       navigateToClueAndCell({
         clueNumber: firstClueNumber,
@@ -980,11 +1214,7 @@ export const handlePreviousClue = ({
     clueNumber: number,
     orientation: "across" | "down",
   ): boolean => {
-    const clueNumbers = calculateClueNumbers(
-      crosswordState.grid,
-      crosswordState.rows,
-      crosswordState.columns,
-    );
+    const clueNumbers = getClueNumbers(crosswordState);
     const startCell = findClueStartCell(
       clueNumber,
       clueNumbers,
@@ -998,11 +1228,13 @@ export const handlePreviousClue = ({
       for (let c = startCol; c < crosswordState.columns; c++) {
         if (crosswordState.grid[startRow][c]) break; // Stop at black cell
         if (!crosswordState.letters[startRow][c]) return true;
+        if (hasWallAfter(crosswordState.walls, startRow, c, orientation)) break;
       }
     } else {
       for (let r = startRow; r < crosswordState.rows; r++) {
         if (crosswordState.grid[r][startCol]) break; // Stop at black cell
         if (!crosswordState.letters[r][startCol]) return true;
+        if (hasWallAfter(crosswordState.walls, r, startCol, orientation)) break;
       }
     }
     return false;
@@ -1013,11 +1245,7 @@ export const handlePreviousClue = ({
     startClueNumber: number | null,
     orientation: "across" | "down",
   ): number | null => {
-    const clueNumbers = calculateClueNumbers(
-      crosswordState.grid,
-      crosswordState.rows,
-      crosswordState.columns,
-    );
+    const clueNumbers = getClueNumbers(crosswordState);
     let prevClueNumber = findPreviousClueNumber(
       startClueNumber,
       orientation,
@@ -1025,6 +1253,7 @@ export const handlePreviousClue = ({
       clueNumbers,
       crosswordState.rows,
       crosswordState.columns,
+      crosswordState.walls,
     );
 
     // Keep track of visited clues to prevent infinite loops
@@ -1040,6 +1269,7 @@ export const handlePreviousClue = ({
         clueNumbers,
         crosswordState.rows,
         crosswordState.columns,
+        crosswordState.walls,
       );
     }
     return null;
@@ -1059,11 +1289,7 @@ export const handlePreviousClue = ({
 
     if (prevClueNumber) {
       // Found a clue with empty cells in the other orientation
-      const clueNumbers = calculateClueNumbers(
-        crosswordState.grid,
-        crosswordState.rows,
-        crosswordState.columns,
-      );
+      const clueNumbers = getClueNumbers(crosswordState);
       const startCell = findClueStartCell(
         prevClueNumber,
         clueNumbers,
@@ -1078,6 +1304,7 @@ export const handlePreviousClue = ({
         clueNumbers,
         crosswordState.rows,
         crosswordState.columns,
+        crosswordState.walls,
       );
       navigateToClueAndCell({
         clueNumber: prevClueNumber,
@@ -1092,11 +1319,7 @@ export const handlePreviousClue = ({
 
   // If we found a clue with empty cells in the current orientation
   if (prevClueNumber) {
-    const clueNumbers = calculateClueNumbers(
-      crosswordState.grid,
-      crosswordState.rows,
-      crosswordState.columns,
-    );
+    const clueNumbers = getClueNumbers(crosswordState);
     const startCell = findClueStartCell(
       prevClueNumber,
       clueNumbers,
@@ -1111,6 +1334,7 @@ export const handlePreviousClue = ({
       clueNumbers,
       crosswordState.rows,
       crosswordState.columns,
+      crosswordState.walls,
     );
     navigateToClueAndCell({
       clueNumber: prevClueNumber,
@@ -1123,11 +1347,7 @@ export const handlePreviousClue = ({
   }
 
   // If no clues with empty cells found in either orientation, fall back to normal cycling
-  const clueNumbers = calculateClueNumbers(
-    crosswordState.grid,
-    crosswordState.rows,
-    crosswordState.columns,
-  );
+  const clueNumbers = getClueNumbers(crosswordState);
   prevClueNumber = findPreviousClueNumber(
     currentClueNumber,
     currentOrientation,
@@ -1135,6 +1355,7 @@ export const handlePreviousClue = ({
     clueNumbers,
     crosswordState.rows,
     crosswordState.columns,
+    crosswordState.walls,
   );
 
   if (prevClueNumber) {
@@ -1154,6 +1375,7 @@ export const handlePreviousClue = ({
       clueNumbers,
       crosswordState.rows,
       crosswordState.columns,
+      crosswordState.walls,
     );
     // Navigate to the previous clue
     navigateToClueAndCell({
@@ -1173,6 +1395,7 @@ export const handlePreviousClue = ({
       clueNumbers,
       crosswordState.rows,
       crosswordState.columns,
+      crosswordState.walls,
     );
 
     if (lastClueNumber) {
@@ -1190,6 +1413,7 @@ export const handlePreviousClue = ({
         clueNumbers,
         crosswordState.rows,
         crosswordState.columns,
+        crosswordState.walls,
       );
       navigateToClueAndCell({
         clueNumber: lastClueNumber,
@@ -1251,6 +1475,7 @@ export interface WordAnalysis {
  * @param orientation - Current orientation
  * @param rows - Grid height
  * @param columns - Grid width
+ * @param walls - Bars between cells, for barred grids
  * @returns Analysis of the current word state
  */
 export const analyzeCurrentWord = (
@@ -1261,6 +1486,7 @@ export const analyzeCurrentWord = (
   orientation: "across" | "down",
   rows: number,
   columns: number,
+  walls?: GridWalls | null,
 ): WordAnalysis => {
   // Find the start of the current word
   const [startRow, startCol] = findWordStart(
@@ -1268,6 +1494,7 @@ export const analyzeCurrentWord = (
     row,
     col,
     orientation === "across",
+    walls,
   );
 
   let isComplete = true;
@@ -1292,6 +1519,8 @@ export const analyzeCurrentWord = (
       if (startRow === row && c === col) {
         foundCurrentCell = true;
       }
+
+      if (hasWallAfter(walls, startRow, c, "across")) break;
     }
 
     // If no next empty cell found after current, search before current
@@ -1320,6 +1549,8 @@ export const analyzeCurrentWord = (
       if (r === row && startCol === col) {
         foundCurrentCell = true;
       }
+
+      if (hasWallAfter(walls, r, startCol, "down")) break;
     }
 
     // If no next empty cell found after current, search before current
@@ -1420,13 +1651,15 @@ export const executeLetterInputNavigation = (
       break;
 
     case "next-cell": {
-      const nextCell = findNextCellInWord(
+      const nextCell = findNextEditableCellInWord(
         crosswordState.grid,
         row,
         col,
         crosswordState.clueOrientation,
         crosswordState.rows,
         crosswordState.columns,
+        crosswordState.walls,
+        getLockedCells(crosswordState),
       );
       setCrosswordState({
         ...crosswordState,
@@ -1476,6 +1709,8 @@ export const executeLetterInputNavigation = (
 export interface LetterChangeResult {
   newLetters: string[][];
   newValidatedCells: (boolean | undefined)[][];
+  /** Tentative flags after the change; cleared cells lose theirs */
+  newPencilled: boolean[][];
   newActiveCell: [number, number] | null;
   actions: Array<{
     type: "SET_STATE" | "HANDLE_NEXT_CLUE" | "CHECK_COMPLETION" | "SHOW_ERROR";
@@ -1494,6 +1729,19 @@ export interface LetterChangeInput {
   row: number;
   col: number;
   letter: string;
+  /** Resolved clue numbering; derived from `grid` when omitted */
+  clueNumbers?: number[][];
+  /** Bars between cells, for barred grids */
+  walls?: GridWalls | null;
+  /** Read-only cells: puzzle givens and revealed cells */
+  lockedCells?: boolean[][] | null;
+  /** When set, a typed letter is checked against `solution` right away */
+  autocheck?: boolean;
+  solution?: string[][] | null;
+  /** Cells holding pencilled letters */
+  pencilled?: boolean[][] | null;
+  /** Enter the letter in pencil; typing in pen confirms a pencilled letter */
+  pencil?: boolean;
 }
 
 /**
@@ -1507,6 +1755,15 @@ export interface LetterChangeInput {
  * 2. Empty cell + delete (not at word start): Move back one cell in word and clear it
  * 3. Empty cell + delete (at word start): Jump to last cell of previous incomplete answer and clear it
  *
+ * LOCKED CELLS: givens and revealed cells are never overwritten or cleared. Typing over
+ * one is refused (returns null); deleting on one behaves like deleting on an empty cell.
+ *
+ * AUTOCHECK: with `autocheck` on, a typed letter is marked right or wrong in
+ * `newValidatedCells` immediately instead of waiting for Check Answer.
+ *
+ * PENCIL: the typed cell is flagged in `newPencilled` when `pencil` is set and
+ * unflagged otherwise. Cells left empty by the change are never pencilled.
+ *
  * @param input - All the input parameters needed for letter handling
  * @returns Result containing new state and actions to perform
  */
@@ -1524,19 +1781,38 @@ export const processLetterChange = (
     row,
     col,
     letter,
+    walls,
+    lockedCells,
+    autocheck,
+    solution,
+    pencilled,
+    pencil,
   } = input;
+  const isLocked = (r: number, c: number) => !!lockedCells?.[r]?.[c];
+
+  // Locked cells are read-only
+  if (letter && isLocked(row, col)) return null;
+  const getNumbers = () =>
+    input.clueNumbers ?? calculateClueNumbers(grid, rows, columns, walls);
 
   const newLetters = letters.map((row) => [...row]);
   const wasEmpty = !letters[row][col];
-  newLetters[row][col] = letter;
+  if (!isLocked(row, col)) {
+    newLetters[row][col] = letter;
+  }
 
-  // Clear validation state for this cell
+  // Clear validation state for this cell; a locked cell keeps its mark
   const newValidatedCells = validatedCells
     ? validatedCells.map((row) => [...row])
     : Array(rows)
         .fill(0)
         .map(() => Array(columns).fill(undefined));
-  newValidatedCells[row][col] = undefined;
+  if (!isLocked(row, col)) {
+    newValidatedCells[row][col] =
+      autocheck && solution && letter
+        ? letter.toUpperCase() === (solution[row]?.[col] ?? "").toUpperCase()
+        : undefined;
+  }
 
   const actions: LetterChangeResult["actions"] = [];
   let newActiveCell: [number, number] | null = [row, col];
@@ -1554,6 +1830,7 @@ export const processLetterChange = (
       clueOrientation,
       rows,
       columns,
+      walls,
     );
 
     if (analysis.isComplete) {
@@ -1566,7 +1843,7 @@ export const processLetterChange = (
         case "next-clue": {
           // Jump to next numeric clue with wrapping and orientation switching
           if (activeClueNumber) {
-            const clueNumbers = calculateClueNumbers(grid, rows, columns);
+            const clueNumbers = getNumbers();
             const nextClueInfo = findNextNumericClue(
               activeClueNumber,
               clueOrientation,
@@ -1575,6 +1852,7 @@ export const processLetterChange = (
               clueNumbers,
               rows,
               columns,
+              walls,
             );
 
             if (nextClueInfo) {
@@ -1591,13 +1869,15 @@ export const processLetterChange = (
           break;
         }
         case "next-cell": {
-          const nextCell = findNextCellInWord(
+          const nextCell = findNextEditableCellInWord(
             grid,
             row,
             col,
             clueOrientation,
             rows,
             columns,
+            walls,
+            lockedCells,
           );
           newActiveCell = nextCell || [row, col];
           break;
@@ -1612,13 +1892,15 @@ export const processLetterChange = (
 
       switch (decision) {
         case "next-cell": {
-          const nextCell = findNextCellInWord(
+          const nextCell = findNextEditableCellInWord(
             grid,
             row,
             col,
             clueOrientation,
             rows,
             columns,
+            walls,
+            lockedCells,
           );
           newActiveCell = nextCell || [row, col];
           break;
@@ -1634,12 +1916,18 @@ export const processLetterChange = (
     }
   } else {
     // LETTER DELETION: Handle backspace/delete with improved behavior
-    const currentCellIsEmpty = !letters[row][col];
+    const currentCellIsEmpty = !letters[row][col] || isLocked(row, col);
 
     if (currentCellIsEmpty) {
       // SCENARIO 1: Empty cell + delete
-      const clueNumbers = calculateClueNumbers(grid, rows, columns);
-      const isAtStartOfWord = isStartOfWord(grid, row, col, clueOrientation);
+      const clueNumbers = getNumbers();
+      const isAtStartOfWord = isStartOfWord(
+        grid,
+        row,
+        col,
+        clueOrientation,
+        walls,
+      );
 
       if (isAtStartOfWord) {
         // SCENARIO 1a: At start of answer + empty cell + delete
@@ -1652,13 +1940,16 @@ export const processLetterChange = (
             clueNumbers,
             rows,
             columns,
+            walls,
           );
 
           if (prevClueInfo) {
             const [targetRow, targetCol] = prevClueInfo.cell;
             // Clear the target cell
-            newLetters[targetRow][targetCol] = "";
-            newValidatedCells[targetRow][targetCol] = undefined;
+            if (!isLocked(targetRow, targetCol)) {
+              newLetters[targetRow][targetCol] = "";
+              newValidatedCells[targetRow][targetCol] = undefined;
+            }
             newActiveCell = prevClueInfo.cell;
 
             actions.push({
@@ -1685,13 +1976,16 @@ export const processLetterChange = (
           row,
           col,
           clueOrientation,
+          walls,
         );
 
         if (prevCell) {
           const [prevRow, prevCol] = prevCell;
           // Clear the previous cell
-          newLetters[prevRow][prevCol] = "";
-          newValidatedCells[prevRow][prevCol] = undefined;
+          if (!isLocked(prevRow, prevCol)) {
+            newLetters[prevRow][prevCol] = "";
+            newValidatedCells[prevRow][prevCol] = undefined;
+          }
           newActiveCell = prevCell;
 
           const clueNumber = clueNumbers[prevRow][prevCol];
@@ -1717,9 +2011,17 @@ export const processLetterChange = (
     }
   }
 
+  const newPencilled = newLetters.map((cells, r) =>
+    cells.map((cell, c) => !!cell && !!pencilled?.[r]?.[c]),
+  );
+  if (letter && !isLocked(row, col)) {
+    newPencilled[row][col] = !!pencil;
+  }
+
   return {
     newLetters,
     newValidatedCells,
+    newPencilled,
     newActiveCell,
     actions,
   };
@@ -1744,7 +2046,8 @@ export const isPuzzleComplete = (
 };
 
 /**
- * Helper function to check if all answers are correct
+ * Helper function to check if all answers are correct. Entries are compared
+ * whole, so rebus cells must match their full solution string.
  */
 export const areAllAnswersCorrect = (
   grid: boolean[][],
@@ -1776,10 +2079,569 @@ export const isStartOfWord = (
   row: number,
   col: number,
   orientation: "across" | "down",
+  walls?: GridWalls | null,
 ): boolean => {
   if (orientation === "across") {
-    return col === 0 || grid[row][col - 1];
+    return (
+      col === 0 ||
+      grid[row][col - 1] ||
+      hasWallBefore(walls, row, col, orientation)
+    );
   } else {
-    return row === 0 || grid[row - 1][col];
+    return (
+      row === 0 ||
+      grid[row - 1][col] ||
+      hasWallBefore(walls, row, col, orientation)
+    );
+  }
+};
+
+/**
+ * REVEAL AND CLEAR UTILITIES
+ *
+ * Revealing fills cells with their solution and records them in `revealed`,
+ * which locks them and lets a finished solve report that it used help.
+ * Clearing erases the solver's letters and never touches locked cells.
+ */
+
+export type CellScope = "cell" | "word" | "puzzle";
+
+export type ClearScope = "word" | "incorrect" | "puzzle";
+
+const copyPencilled = (crosswordState: CrosswordState): boolean[][] =>
+  crosswordState.pencilled
+    ? crosswordState.pencilled.map((row) => [...row])
+    : Array.from({ length: crosswordState.rows }, () =>
+        Array(crosswordState.columns).fill(false),
+      );
+
+/**
+ * Lists the playable cells an action covers: the active cell, the active
+ * word, or every cell in the puzzle.
+ */
+export const getCellsInScope = (
+  crosswordState: CrosswordState,
+  scope: CellScope,
+): [number, number][] => {
+  const { grid, letters, activeCell, clueOrientation, rows, columns, walls } =
+    crosswordState;
+
+  if (scope === "puzzle") {
+    const cells: [number, number][] = [];
+    grid.forEach((row, r) =>
+      row.forEach((isBlocked, c) => {
+        if (!isBlocked) cells.push([r, c]);
+      }),
+    );
+    return cells;
+  }
+
+  if (!activeCell || grid[activeCell[0]][activeCell[1]]) return [];
+  if (scope === "cell") return [activeCell];
+
+  return analyzeCurrentWord(
+    grid,
+    letters,
+    activeCell[0],
+    activeCell[1],
+    clueOrientation,
+    rows,
+    columns,
+    walls,
+  ).wordCells;
+};
+
+export interface RevealResult {
+  letters: string[][];
+  revealed: boolean[][];
+  pencilled: boolean[][];
+  validatedCells: (boolean | undefined)[][];
+  /** Cells whose letter was missing or wrong and has been revealed */
+  revealedCells: [number, number][];
+}
+
+/**
+ * Fills the given cells with their solution. Cells that are locked or
+ * already correct are left alone and not counted as revealed.
+ */
+export const revealCells = (
+  crosswordState: CrosswordState,
+  validatedCells: (boolean | undefined)[][] | null,
+  solution: string[][],
+  cells: [number, number][],
+): RevealResult => {
+  const { rows, columns } = crosswordState;
+  const lockedCells = getLockedCells(crosswordState);
+  const letters = crosswordState.letters.map((row) => [...row]);
+  const revealed = crosswordState.revealed
+    ? crosswordState.revealed.map((row) => [...row])
+    : Array.from({ length: rows }, () => Array(columns).fill(false));
+  const pencilled = copyPencilled(crosswordState);
+  const newValidatedCells = validatedCells
+    ? validatedCells.map((row) => [...row])
+    : Array.from({ length: rows }, () => Array(columns).fill(undefined));
+  const revealedCells: [number, number][] = [];
+
+  cells.forEach(([row, col]) => {
+    const answer = solution[row]?.[col];
+    if (!answer || lockedCells?.[row][col]) return;
+    if (letters[row][col].toUpperCase() === answer.toUpperCase()) return;
+
+    letters[row][col] = answer.toUpperCase();
+    revealed[row][col] = true;
+    pencilled[row][col] = false;
+    newValidatedCells[row][col] = true;
+    revealedCells.push([row, col]);
+  });
+
+  return {
+    letters,
+    revealed,
+    pencilled,
+    validatedCells: newValidatedCells,
+    revealedCells,
+  };
+};
+
+/** Counts filled and correct cells across the playable grid */
+export const getGridProgress = (
+  crosswordState: CrosswordState,
+  solution: string[][] | null,
+): Pick<CrosswordProgress, "filledCells" | "totalCells" | "correctCells"> => {
+  let filledCells = 0;
+  let totalCells = 0;
+  let correctCells = 0;
+  crosswordState.grid.forEach((row, r) =>
+    row.forEach((isBlocked, c) => {
+      if (isBlocked) return;
+      totalCells++;
+      const letter = crosswordState.letters[r][c];
+      if (!letter) return;
+      filledCells++;
+      if (letter.toUpperCase() === solution?.[r]?.[c]?.toUpperCase()) {
+        correctCells++;
+      }
+    }),
+  );
+  return {
+    filledCells,
+    totalCells,
+    correctCells: solution ? correctCells : null,
+  };
+};
+
+/** Counts the revealed cells in a `revealed` matrix */
+export const countRevealedCells = (
+  revealed: boolean[][] | null | undefined,
+): number =>
+  revealed
+    ? revealed.reduce(
+        (total, row) => total + row.filter((cell) => cell).length,
+        0,
+      )
+    : 0;
+
+/** Lists the filled, unlocked cells whose letter doesn't match the solution */
+export const getIncorrectCells = (
+  crosswordState: CrosswordState,
+  solution: string[][],
+): [number, number][] => {
+  const lockedCells = getLockedCells(crosswordState);
+  const cells: [number, number][] = [];
+  crosswordState.letters.forEach((row, r) =>
+    row.forEach((letter, c) => {
+      if (crosswordState.grid[r][c] || !letter || lockedCells?.[r][c]) return;
+      if (letter.toUpperCase() !== (solution[r]?.[c] ?? "").toUpperCase()) {
+        cells.push([r, c]);
+      }
+    }),
+  );
+  return cells;
+};
+
+export interface ClearResult {
+  letters: string[][];
+  pencilled: boolean[][];
+  validatedCells: (boolean | undefined)[][];
+  /** Cells that held a letter or a check mark and have been cleared */
+  clearedCells: [number, number][];
+}
+
+/**
+ * Erases the letters in the given cells and resets their check marks.
+ * Locked cells keep their letter.
+ */
+export const clearCells = (
+  crosswordState: CrosswordState,
+  validatedCells: (boolean | undefined)[][] | null,
+  cells: [number, number][],
+): ClearResult => {
+  const { rows, columns } = crosswordState;
+  const lockedCells = getLockedCells(crosswordState);
+  const letters = crosswordState.letters.map((row) => [...row]);
+  const pencilled = copyPencilled(crosswordState);
+  const newValidatedCells = validatedCells
+    ? validatedCells.map((row) => [...row])
+    : Array.from({ length: rows }, () => Array(columns).fill(undefined));
+  const clearedCells: [number, number][] = [];
+
+  cells.forEach(([row, col]) => {
+    if (lockedCells?.[row][col]) return;
+    if (!letters[row][col] && newValidatedCells[row][col] === undefined) return;
+
+    letters[row][col] = "";
+    pencilled[row][col] = false;
+    newValidatedCells[row][col] = undefined;
+    clearedCells.push([row, col]);
+  });
+
+  return {
+    letters,
+    pencilled,
+    validatedCells: newValidatedCells,
+    clearedCells,
+  };
+};
+
+/**
+ * HISTORY UTILITIES
+ *
+ * Undo and redo work on snapshots of the grid contents (letters, check marks,
+ * reveals and pencil flags) together with the cursor, so stepping through the
+ * history also moves the cursor back to where each change happened.
+ */
+
+export const takeHistorySnapshot = (
+  crosswordState: CrosswordState,
+  validatedCells: (boolean | undefined)[][] | null,
+): HistorySnapshot => ({
+  letters: crosswordState.letters,
+  validatedCells,
+  revealed: crosswordState.revealed,
+  pencilled: crosswordState.pencilled,
+  activeCell: crosswordState.activeCell,
+  activeClueNumber: crosswordState.activeClueNumber,
+  clueOrientation: crosswordState.clueOrientation,
+});
+
+const sameCells = <T>(
+  a: T[][] | null | undefined,
+  b: T[][] | null | undefined,
+  empty: T,
+): boolean => {
+  if (a === b) return true;
+  const rows = Math.max(a?.length ?? 0, b?.length ?? 0);
+  for (let r = 0; r < rows; r++) {
+    const columns = Math.max(a?.[r]?.length ?? 0, b?.[r]?.length ?? 0);
+    for (let c = 0; c < columns; c++) {
+      if ((a?.[r]?.[c] ?? empty) !== (b?.[r]?.[c] ?? empty)) return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Whether two snapshots differ in grid contents. Cursor movement alone is not
+ * an edit and doesn't create a history entry.
+ */
+export const hasGridContentChanged = (
+  before: HistorySnapshot,
+  after: HistorySnapshot,
+): boolean =>
+  !sameCells(before.letters, after.letters, "") ||
+  !sameCells<boolean | undefined>(
+    before.validatedCells,
+    after.validatedCells,
+    undefined,
+  ) ||
+  !sameCells(before.revealed, after.revealed, false) ||
+  !sameCells(before.pencilled, after.pencilled, false);
+
+/** Puts a snapshot's grid contents and cursor back into the solver state */
+export const applyHistorySnapshot = (
+  crosswordState: CrosswordState,
+  snapshot: HistorySnapshot,
+): CrosswordState => ({
+  ...crosswordState,
+  letters: snapshot.letters,
+  revealed: snapshot.revealed,
+  pencilled: snapshot.pencilled,
+  activeCell: snapshot.activeCell,
+  activeClueNumber: snapshot.activeClueNumber,
+  clueOrientation: snapshot.clueOrientation,
+  rebusEntry: null,
+});
+
+/**
+ * CONTROLLED MODE
+ *
+ * When the host app owns the letters or the cursor, its values replace the
+ * solver's own on every render. Locked cells always keep their letter (the
+ * puzzle's for givens, the answer for reveals), and a cursor moved from
+ * outside brings the active clue along with it.
+ */
+
+export interface ControlledCrosswordValues {
+  letters?: string[][];
+  activeCell?: [number, number] | null;
+}
+
+export const applyControlledValues = (
+  crosswordState: CrosswordState,
+  { letters, activeCell }: ControlledCrosswordValues,
+): CrosswordState => {
+  const newState = { ...crosswordState };
+
+  if (letters !== undefined) {
+    const lockedCells = getLockedCells(crosswordState);
+    newState.letters = crosswordState.letters.map((row, r) =>
+      row.map((cell, c) =>
+        lockedCells?.[r]?.[c] ? cell : (letters[r]?.[c] ?? ""),
+      ),
+    );
+  }
+
+  if (activeCell !== undefined) {
+    newState.activeCell = activeCell;
+    const current = crosswordState.activeCell;
+    const moved =
+      !activeCell ||
+      !current ||
+      activeCell[0] !== current[0] ||
+      activeCell[1] !== current[1];
+    if (
+      moved &&
+      activeCell &&
+      !crosswordState.grid[activeCell[0]]?.[activeCell[1]]
+    ) {
+      const clueNumbers = getClueNumbers(crosswordState);
+      const { grid, walls, clueOrientation } = crosswordState;
+      const otherOrientation = clueOrientation === "across" ? "down" : "across";
+      const clueNumber = findClueNumberForCell(
+        activeCell[0],
+        activeCell[1],
+        clueOrientation,
+        grid,
+        clueNumbers,
+        walls,
+      );
+      if (clueNumber !== null) {
+        newState.activeClueNumber = clueNumber;
+      } else {
+        const otherClueNumber = findClueNumberForCell(
+          activeCell[0],
+          activeCell[1],
+          otherOrientation,
+          grid,
+          clueNumbers,
+          walls,
+        );
+        if (otherClueNumber !== null) {
+          newState.activeClueNumber = otherClueNumber;
+          newState.clueOrientation = otherOrientation;
+        }
+      }
+    }
+  }
+
+  return newState;
+};
+
+/**
+ * TIMER UTILITIES
+ *
+ * Solving time is kept as a ledger of active intervals. Pausing closes the
+ * open interval and resuming opens a new one, so time spent paused, hidden or
+ * idle never counts towards the elapsed time.
+ */
+
+/** Total active time in the ledger, counting an open interval up to `now` */
+export const getLedgerElapsedMs = (
+  ledger: TimerInterval[],
+  now: number = Date.now(),
+): number =>
+  ledger.reduce(
+    (total, { start, end }) => total + Math.max(0, (end ?? now) - start),
+    0,
+  );
+
+export const isLedgerRunning = (ledger: TimerInterval[]): boolean =>
+  ledger.length > 0 && ledger[ledger.length - 1].end === null;
+
+/** Opens a new interval unless one is already open */
+export const openLedgerInterval = (
+  ledger: TimerInterval[],
+  now: number = Date.now(),
+): TimerInterval[] =>
+  isLedgerRunning(ledger) ? ledger : [...ledger, { start: now, end: null }];
+
+/** Closes the open interval, if any */
+export const closeLedgerInterval = (
+  ledger: TimerInterval[],
+  now: number = Date.now(),
+): TimerInterval[] =>
+  isLedgerRunning(ledger)
+    ? [...ledger.slice(0, -1), { ...ledger[ledger.length - 1], end: now }]
+    : ledger;
+
+/**
+ * SOLVE STATISTICS
+ *
+ * Per-clue timing and effort, one entry for each clue in
+ * `CrosswordState.clues`. Times are elapsed solving seconds.
+ */
+
+export const createSolveStats = (
+  crosswordState: Pick<CrosswordState, "clues">,
+): SolveStats => ({
+  totalSeconds: 0,
+  clues: (["across", "down"] as const).flatMap((orientation) =>
+    Object.keys(
+      crosswordState.clues[orientation === "across" ? "Across" : "Down"],
+    ).map(
+      (number): ClueStats => ({
+        number: Number(number),
+        orientation,
+        firstEnteredAt: null,
+        completedAt: null,
+        checks: 0,
+        erasures: 0,
+      }),
+    ),
+  ),
+});
+
+const isSameClue = (
+  clue: Pick<ClueStats, "number" | "orientation">,
+  number: number,
+  orientation: ClueOrientation,
+) => clue.number === number && clue.orientation === orientation;
+
+/** The across and down clues the given cells belong to, without repeats */
+export const getCluesForCells = (
+  crosswordState: CrosswordState,
+  cells: [number, number][],
+): { number: number; orientation: ClueOrientation }[] => {
+  const clueNumbers = getClueNumbers(crosswordState);
+  const clues: { number: number; orientation: ClueOrientation }[] = [];
+  cells.forEach(([row, col]) =>
+    (["across", "down"] as const).forEach((orientation) => {
+      const number = findClueNumberForCell(
+        row,
+        col,
+        orientation,
+        crosswordState.grid,
+        clueNumbers,
+        crosswordState.walls,
+      );
+      if (
+        number !== null &&
+        !clues.some((clue) => isSameClue(clue, number, orientation))
+      ) {
+        clues.push({ number, orientation });
+      }
+    }),
+  );
+  return clues;
+};
+
+/**
+ * Records what changed between two states: a newly active clue is marked as
+ * entered, answers that lost letters count an erasure, and answers that
+ * became full (or stopped being full) have their completion time updated.
+ */
+export const updateSolveStats = (
+  stats: SolveStats,
+  prevState: CrosswordState,
+  nextState: CrosswordState,
+  elapsedSeconds: number,
+): SolveStats => {
+  const { activeClueNumber, clueOrientation } = nextState;
+  const isNewClue =
+    activeClueNumber !== null &&
+    (activeClueNumber !== prevState.activeClueNumber ||
+      clueOrientation !== prevState.clueOrientation);
+
+  const changedCells: [number, number][] = [];
+  const erasedCells: [number, number][] = [];
+  if (prevState.letters !== nextState.letters) {
+    nextState.letters.forEach((row, r) =>
+      row.forEach((letter, c) => {
+        const prevLetter = prevState.letters[r]?.[c] ?? "";
+        if (letter === prevLetter) return;
+        changedCells.push([r, c]);
+        if (prevLetter && !letter) erasedCells.push([r, c]);
+      }),
+    );
   }
+  if (!isNewClue && changedCells.length === 0) return stats;
+
+  const changedClues = getCluesForCells(nextState, changedCells);
+  const erasedClues = getCluesForCells(nextState, erasedCells);
+
+  return {
+    totalSeconds: elapsedSeconds,
+    clues: stats.clues.map((clue) => {
+      let updated = clue;
+      if (
+        isNewClue &&
+        clue.firstEnteredAt === null &&
+        isSameClue(clue, activeClueNumber, clueOrientation)
+      ) {
+        updated = { ...updated, firstEnteredAt: elapsedSeconds };
+      }
+      if (erasedClues.some((c) => isSameClue(clue, c.number, c.orientation))) {
+        updated = { ...updated, erasures: updated.erasures + 1 };
+      }
+      if (changedClues.some((c) => isSameClue(clue, c.number, c.orientation))) {
+        const start = findClueStartCell(
+          clue.number,
+          getClueNumbers(nextState),
+          nextState.rows,
+          nextState.columns,
+        );
+        const isFilled =
+          !!start &&
+          analyzeCurrentWord(
+            nextState.grid,
+            nextState.letters,
+            start[0],
+            start[1],
+            clue.orientation,
+            nextState.rows,
+            nextState.columns,
+            nextState.walls,
+          ).isComplete;
+        updated = {
+          ...updated,
+          completedAt: isFilled
+            ? (updated.completedAt ?? elapsedSeconds)
+            : null,
+        };
+      }
+      return updated;
+    }),
+  };
 };
+
+/** Counts a check against each of the given clues */
+export const recordClueChecks = (
+  stats: SolveStats,
+  clues: { number: number; orientation: ClueOrientation }[],
+): SolveStats => ({
+  ...stats,
+  clues: stats.clues.map((clue) =>
+    clues.some((c) => isSameClue(clue, c.number, c.orientation))
+      ? { ...clue, checks: clue.checks + 1 }
+      : clue,
+  ),
+});
+
+/**
+ * Seconds from first entering a clue to completing it. Answers filled in
+ * entirely from crossing clues take no time.
+ */
+export const getClueSolveSeconds = (clue: ClueStats): number | null =>
+  clue.completedAt === null
+    ? null
+    : Math.max(0, clue.completedAt - (clue.firstEnteredAt ?? clue.completedAt));
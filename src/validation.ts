@@ -0,0 +1,329 @@
+import { calculateClueNumbers } from "./utils";
+import { DEFAULT_BLOCK, getIpuzCellKind, getIpuzWalls } from "./loader";
+import { IPuzGrid, IPuzPuzzle } from "./types/ipuz";
+
+/**
+ * IPUZ VALIDATION
+ *
+ * Structural checks for ipuz crossword data before it reaches the solver.
+ * Every issue carries a JSONPath-style `path` (e.g. `$.puzzle[3]`) pointing
+ * at the offending value. Errors make the puzzle unusable; warnings describe
+ * data the solver can still load.
+ */
+
+export type IpuzValidationCode =
+  | "invalid-type"
+  | "missing-field"
+  | "invalid-dimensions"
+  | "ragged-row"
+  | "size-mismatch"
+  | "invalid-cell"
+  | "invalid-clue"
+  | "unknown-clue-number"
+  | "unknown-kind"
+  | "unsupported-kind"
+  | "unknown-version"
+  | "load-failed";
+
+export interface IpuzValidationIssue {
+  code: IpuzValidationCode;
+  path: string;
+  message: string;
+}
+
+export interface IpuzValidationResult {
+  valid: boolean;
+  errors: IpuzValidationIssue[];
+  warnings: IpuzValidationIssue[];
+}
+
+const CROSSWORD_KIND = "http://ipuz.org/crossword";
+
+const KNOWN_KIND_PREFIXES = [
+  CROSSWORD_KIND,
+  "http://ipuz.org/acrostic",
+  "http://ipuz.org/answer",
+  "http://ipuz.org/block",
+  "http://ipuz.org/fill",
+  "http://ipuz.org/sudoku",
+  "http://ipuz.org/wordsearch",
+];
+
+const KNOWN_VERSIONS = ["http://ipuz.org/v1", "http://ipuz.org/v2"];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+/**
+ * Reads the clue number a puzzle cell declares, if any. Cells may be a plain
+ * number, a numeric string label, or an object with a `cell` property.
+ */
+const getDeclaredNumber = (cell: unknown): number | null => {
+  const value = isObject(cell) ? cell.cell : cell;
+  if (typeof value === "number" && value > 0) return value;
+  if (typeof value === "string" && /^\d+$/.test(value)) {
+    const number = parseInt(value, 10);
+    return number > 0 ? number : null;
+  }
+  return null;
+};
+
+const isClueNumber = (value: unknown): boolean =>
+  (typeof value === "number" && Number.isInteger(value)) ||
+  (typeof value === "string" && /^\d+$/.test(value));
+
+/**
+ * Validates unknown input against the subset of the ipuz crossword schema
+ * the solver relies on.
+ *
+ * @param data - Parsed JSON of unknown shape
+ * @returns Errors and warnings; `valid` is true when there are no errors
+ */
+export const validateIpuz = (data: unknown): IpuzValidationResult => {
+  const errors: IpuzValidationIssue[] = [];
+  const warnings: IpuzValidationIssue[] = [];
+  const error = (code: IpuzValidationCode, path: string, message: string) =>
+    errors.push({ code, path, message });
+  const warn = (code: IpuzValidationCode, path: string, message: string) =>
+    warnings.push({ code, path, message });
+  const result = () => ({ valid: errors.length === 0, errors, warnings });
+
+  if (!isObject(data)) {
+    error("invalid-type", "$", "Puzzle data must be an object");
+    return result();
+  }
+
+  ["version", "kind", "dimensions", "puzzle", "clues"].forEach((field) => {
+    if (!(field in data)) {
+      error("missing-field", `$.${field}`, `Missing required field "${field}"`);
+    }
+  });
+
+  // Version
+  if ("version" in data) {
+    if (typeof data.version !== "string") {
+      error("invalid-type", "$.version", "version must be a string");
+    } else if (
+      !KNOWN_VERSIONS.some(
+        (known) => data.version === known || data.version === `${known}/`,
+      )
+    ) {
+      warn(
+        "unknown-version",
+        "$.version",
+        `Unrecognized ipuz version "${data.version}"`,
+      );
+    }
+  }
+
+  // Kind
+  if ("kind" in data) {
+    if (!Array.isArray(data.kind)) {
+      error("invalid-type", "$.kind", "kind must be an array of URIs");
+    } else {
+      data.kind.forEach((kind, index) => {
+        if (typeof kind !== "string") {
+          error(
+            "invalid-type",
+            `$.kind[${index}]`,
+            "kind entries must be strings",
+          );
+        } else if (
+          !KNOWN_KIND_PREFIXES.some((prefix) => kind.startsWith(prefix))
+        ) {
+          warn(
+            "unknown-kind",
+            `$.kind[${index}]`,
+            `Unknown puzzle kind "${kind}"`,
+          );
+        }
+      });
+      const isCrossword = data.kind.some(
+        (kind) => typeof kind === "string" && kind.startsWith(CROSSWORD_KIND),
+      );
+      if (!isCrossword) {
+        error(
+          "unsupported-kind",
+          "$.kind",
+          "Puzzle kind does not include a crossword URI",
+        );
+      }
+    }
+  }
+
+  // Dimensions
+  let width = 0;
+  let height = 0;
+  if ("dimensions" in data) {
+    const dimensions = data.dimensions;
+    if (
+      !isObject(dimensions) ||
+      !isPositiveInteger(dimensions.width) ||
+      !isPositiveInteger(dimensions.height)
+    ) {
+      error(
+        "invalid-dimensions",
+        "$.dimensions",
+        "dimensions must have positive integer width and height",
+      );
+    } else {
+      width = dimensions.width;
+      height = dimensions.height;
+    }
+  }
+
+  // Checks that a grid has `height` rows of `width` cells each
+  const checkGridShape = (field: "puzzle" | "solution"): boolean => {
+    const grid = data[field];
+    if (!Array.isArray(grid)) {
+      error("invalid-type", `$.${field}`, `${field} must be an array of rows`);
+      return false;
+    }
+    if (!width || !height) return false;
+
+    let ok = true;
+    if (grid.length !== height) {
+      error(
+        "size-mismatch",
+        `$.${field}`,
+        `${field} has ${grid.length} rows but dimensions.height is ${height}`,
+      );
+      ok = false;
+    }
+    grid.forEach((row, index) => {
+      if (!Array.isArray(row)) {
+        error(
+          "invalid-type",
+          `$.${field}[${index}]`,
+          "Grid rows must be arrays",
+        );
+        ok = false;
+      } else if (row.length !== width) {
+        error(
+          "ragged-row",
+          `$.${field}[${index}]`,
+          `Row ${index} has ${row.length} cells but dimensions.width is ${width}`,
+        );
+        ok = false;
+      }
+    });
+    return ok;
+  };
+
+  let puzzleShapeOk = false;
+  if ("puzzle" in data) {
+    puzzleShapeOk = checkGridShape("puzzle");
+  }
+  if (puzzleShapeOk) {
+    (data.puzzle as unknown[][]).forEach((row, r) =>
+      row.forEach((cell, c) => {
+        const ok =
+          cell === null ||
+          typeof cell === "string" ||
+          typeof cell === "number" ||
+          isObject(cell);
+        if (!ok) {
+          error(
+            "invalid-cell",
+            `$.puzzle[${r}][${c}]`,
+            "Cells must be a number, string, object or null",
+          );
+        }
+      }),
+    );
+  }
+
+  if (
+    "solution" in data &&
+    data.solution !== undefined &&
+    data.solution !== null
+  ) {
+    checkGridShape("solution");
+  }
+
+  // Collect the clue numbers present in the grid
+  let gridNumbers: Set<number> | null = null;
+  if (puzzleShapeOk) {
+    const puzzle = data.puzzle as unknown[][];
+    gridNumbers = new Set<number>();
+    puzzle.forEach((row) =>
+      row.forEach((cell) => {
+        const number = getDeclaredNumber(cell);
+        if (number !== null) gridNumbers!.add(number);
+      }),
+    );
+    // Grids without explicit numbering get them from the block and bar layout
+    if (gridNumbers.size === 0) {
+      const block = typeof data.block === "string" ? data.block : DEFAULT_BLOCK;
+      const blocks = puzzle.map((row) =>
+        row.map(
+          (cell) =>
+            getIpuzCellKind(cell as IPuzGrid[number][number], block) !== "cell",
+        ),
+      );
+      const walls = getIpuzWalls(
+        puzzle as IPuzGrid,
+        isObject(data.styles)
+          ? (data.styles as IPuzPuzzle["styles"])
+          : undefined,
+      );
+      calculateClueNumbers(blocks, height, width, walls).forEach((row) =>
+        row.forEach((number) => {
+          if (number > 0) gridNumbers!.add(number);
+        }),
+      );
+    }
+  }
+
+  // Clues
+  if ("clues" in data) {
+    const clues = data.clues;
+    if (!isObject(clues)) {
+      error("invalid-type", "$.clues", "clues must be an object");
+    } else {
+      (["Across", "Down"] as const).forEach((direction) => {
+        const list = clues[direction];
+        if (list === undefined) {
+          error(
+            "missing-field",
+            `$.clues.${direction}`,
+            `Missing ${direction} clue list`,
+          );
+          return;
+        }
+        if (!Array.isArray(list)) {
+          error(
+            "invalid-type",
+            `$.clues.${direction}`,
+            `${direction} clues must be an array`,
+          );
+          return;
+        }
+        list.forEach((clue, index) => {
+          const path = `$.clues.${direction}[${index}]`;
+          if (
+            !Array.isArray(clue) ||
+            !isClueNumber(clue[0]) ||
+            typeof clue[1] !== "string"
+          ) {
+            error("invalid-clue", path, "Clues must be [number, text] pairs");
+            return;
+          }
+          const number = Number(clue[0]);
+          if (gridNumbers && !gridNumbers.has(number)) {
+            error(
+              "unknown-clue-number",
+              path,
+              `${direction} clue ${number} does not match any numbered cell`,
+            );
+          }
+        });
+      });
+    }
+  }
+
+  return result();
+};